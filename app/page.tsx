@@ -2,10 +2,20 @@
 
 import type React from "react";
 
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Card,
   CardContent,
@@ -23,11 +33,65 @@ import {
   Check,
   XIcon,
   RefreshCw,
+  Route,
+  Mountain,
+  Activity,
+  ChartColumn,
+  TrendingDown,
 } from "lucide-react";
 import { ElevationProfile } from "../components/elevation-profile";
-import { parseGPX, type GPXData } from "../lib/gpx-parser";
-import { detectClimbs, type ClimbSegment } from "../lib/climb-detector";
-import { formatNumberEuropean } from "../lib/format-number";
+import { SmoothingSettings } from "../components/smoothing-settings";
+import { DistanceSettings } from "../components/distance-settings";
+import { ClimbDetectionSettings } from "../components/climb-detection-settings";
+import { TrackReportDialog } from "../components/track-report-dialog";
+import { ClimbProfileDialog } from "../components/climb-profile-dialog";
+import {
+  segmentLength,
+  snapWaypoints,
+  type ElevationPoint,
+  type GPXData,
+  type RawWaypoint,
+  type Waypoint,
+} from "../lib/gpx-parser";
+import { TRACK_FILE_EXTENSIONS } from "../lib/track-parser";
+import {
+  DEFAULT_CLIMB_DETECTION,
+  type ClimbSegment,
+} from "../lib/climb-detector";
+import {
+  CLIMB_SCORINGS,
+  DEFAULT_CLIMB_SCORING,
+  type ClimbScoring,
+} from "../lib/climb-scoring";
+import type { ClimbJobOptions, TrackJobOptions } from "../lib/track-worker";
+import {
+  TRACK_STAGES,
+  TrackJobError,
+  useTrackWorker,
+  type TrackJobResult,
+} from "../hooks/use-track-worker";
+import { hasTrackIssues } from "../lib/track-validation";
+import { ANOMALY_TYPES, type AnomalyType } from "../lib/gps-anomalies";
+import { formatDuration, formatNumberEuropean } from "../lib/format-number";
+import { LONG_STOP_DURATION } from "../lib/ride-stats";
+import { exportGPX } from "../lib/gpx-export";
+import { SIMPLIFY_TOLERANCES } from "../lib/resampling";
+import { gradientColor } from "../lib/gradient-colors";
+import type { DescentSegment } from "../lib/descent-detector";
+import { isMissingElevation } from "../lib/elevation-provider";
+import { DEFAULT_SMOOTHING } from "../lib/elevation-smoothing";
+import {
+  DEFAULT_ELEVATION_GAIN,
+  ELEVATION_GAIN_METHODS,
+  type ElevationGainMethod,
+  type ElevationGainOptions,
+} from "../lib/elevation-gain";
+import { createSRTMProvider, loadHGTFiles, type HGTTile } from "../lib/srtm";
+import {
+  availableChannels,
+  SENSOR_CHANNELS,
+  type SensorChannel,
+} from "../lib/sensor-channels";
 
 interface LabelPoint {
   id: string;
@@ -38,12 +102,166 @@ interface LabelPoint {
   averageGradient?: number;
   customX?: number;
   customY?: number;
+  // Generated from a detected climb and not edited since, so it is replaced when the climbs change
+  generated?: boolean;
+  // Index of the file waypoint it was made from, so a rebuild moves it along with the waypoint
+  waypoint?: number;
+}
+
+// Reads a climb category from a waypoint <type>, e.g. "HC", "2" or "Cat 3"
+function categoryFromWaypointType(
+  type: string | undefined
+): LabelPoint["category"] {
+  const match = type?.trim().match(/^(?:cat(?:egory)?\.?\s*)?(HC|[1-4])$/i);
+  if (!match) return undefined;
+  return match[1].toUpperCase() as LabelPoint["category"];
+}
+
+function labelFromWaypoint(waypoint: Waypoint): LabelPoint {
+  return {
+    id: `waypoint-${Date.now()}-${waypoint.index}`,
+    distance: waypoint.distance,
+    elevation: waypoint.elevation,
+    name: waypoint.name,
+    category: categoryFromWaypointType(waypoint.type),
+    waypoint: waypoint.index,
+  };
+}
+
+// Shared by overlays that are switched off, so an empty array does not redraw the profile on every render
+const NO_OVERLAY: never[] = [];
+
+// Climbs of category 3 and above are labelled automatically
+function isSignificantClimb(climb: ClimbSegment): boolean {
+  return Boolean(
+    climb.category && ["HC", "1", "2", "3"].includes(climb.category)
+  );
+}
+
+// Named checkpoints from the file take precedence over generated climb names, so they take the climb's details
+function addClimbDetails(labels: LabelPoint[], climbs: ClimbSegment[]) {
+  climbs.filter(isSignificantClimb).forEach((climb) => {
+    const label = labels.find(
+      (label) => Math.abs(label.distance - climb.peakDistance) < 0.1
+    );
+    if (label) {
+      label.category ??= climb.category!;
+      label.averageGradient = climb.averageGradient;
+    }
+  });
+}
+
+// Where a label sits on the map, taken from the profile point nearest to it
+function labelLocation(
+  label: LabelPoint,
+  points: ElevationPoint[]
+): RawWaypoint {
+  const point = points.reduce((closest, point) =>
+    Math.abs(point.distance - label.distance) <
+    Math.abs(closest.distance - label.distance)
+      ? point
+      : closest
+  );
+  return {
+    name: label.name,
+    latitude: point.latitude,
+    longitude: point.longitude,
+  };
+}
+
+// Moves labels onto a rebuilt profile. Waypoint labels follow their waypoint and keep the user's edits, those of
+// waypoints back on the track are made again unless the user removed them, and the rest are snapped to where they
+// were on the map. Labels whose place is no longer on the track are dropped.
+function moveLabels(
+  labels: LabelPoint[],
+  previousPoints: ElevationPoint[],
+  data: GPXData,
+  climbs: ClimbSegment[],
+  removedWaypoints: Set<number>
+): LabelPoint[] {
+  const newLabels: LabelPoint[] = [];
+  const waypointLabels = data.waypoints
+    .filter((waypoint) => !removedWaypoints.has(waypoint.index))
+    .map((waypoint): LabelPoint => {
+      const label = labels.find((label) => label.waypoint === waypoint.index);
+      if (label) {
+        return {
+          ...label,
+          distance: waypoint.distance,
+          elevation: waypoint.elevation,
+        };
+      }
+
+      const newLabel = labelFromWaypoint(waypoint);
+      newLabels.push(newLabel);
+      return newLabel;
+    });
+  addClimbDetails(newLabels, climbs);
+
+  const otherLabels = labels.filter(
+    (label) => label.waypoint === undefined && !label.generated
+  );
+  const movedLabels = snapWaypoints(
+    otherLabels.map((label) => labelLocation(label, previousPoints)),
+    data.elevationPoints
+  ).map(
+    (snapped): LabelPoint => ({
+      ...otherLabels[snapped.index],
+      distance: snapped.distance,
+      elevation: snapped.elevation,
+    })
+  );
+
+  return [...waypointLabels, ...movedLabels];
+}
+
+// Swaps the generated climb labels for those of new climbs, keeping every label the user added or edited
+function replaceClimbLabels(
+  labels: LabelPoint[],
+  climbs: ClimbSegment[]
+): LabelPoint[] {
+  const kept = labels.filter((label) => !label.generated);
+  const climbLabels = climbs
+    .filter(isSignificantClimb)
+    .filter(
+      (climb) =>
+        !kept.some(
+          (label) => Math.abs(label.distance - climb.peakDistance) < 0.1
+        )
+    )
+    .map(
+      (climb): LabelPoint => ({
+        id: `climb-${Date.now()}-${Math.random()}`,
+        distance: climb.peakDistance,
+        elevation: climb.peakElevation,
+        name: climb.name,
+        category: climb.category!,
+        averageGradient: climb.averageGradient,
+        generated: true,
+      })
+    );
+
+  return [...kept, ...climbLabels].sort((a, b) => a.distance - b.distance);
+}
+
+// Rebuilds and re-detection are started by option controls that do not wait for them, so failures are reported here
+function reportRebuildError(error: unknown) {
+  console.error("Error rebuilding track:", error);
+  alert(
+    `Error reprocessing the track: ${
+      error instanceof Error ? error.message : String(error)
+    }`
+  );
 }
 
 export default function GPXElevationProfiler() {
   const [gpxData, setGpxData] = useState<GPXData | null>(null);
   const [labels, setLabels] = useState<LabelPoint[]>([]);
   const [detectedClimbs, setDetectedClimbs] = useState<ClimbSegment[]>([]);
+  const [detectedDescents, setDetectedDescents] = useState<DescentSegment[]>(
+    []
+  );
+  const [showDescents, setShowDescents] = useState(false);
   const [hoveredClimb, setHoveredClimb] = useState<ClimbSegment | null>(null);
   const [editingLabel, setEditingLabel] = useState<string | null>(null);
   const [editingName, setEditingName] = useState("");
@@ -57,46 +275,337 @@ export default function GPXElevationProfiler() {
   const [finishName, setFinishName] = useState("FINISH");
   const [hideOutlines, setHideOutlines] = useState(false);
   const [profileRefreshKey, setProfileRefreshKey] = useState(0);
+  const [buildOptions, setBuildOptions] = useState<TrackJobOptions>({});
+  const [demTiles, setDemTiles] = useState<HGTTile[]>([]);
+  // The hysteresis threshold as typed, applied on blur or Enter rather than on every keystroke
+  const [thresholdDraft, setThresholdDraft] = useState<string | null>(null);
+  const [showStops, setShowStops] = useState(false);
+  const [showAnomalies, setShowAnomalies] = useState(true);
+  const [overlayChannel, setOverlayChannel] = useState<SensorChannel | null>(
+    null
+  );
+  // A parsed file waiting on the user's decision about the problems found in it
+  const [pendingTrack, setPendingTrack] = useState<TrackJobResult | null>(null);
+  const [parseError, setParseError] = useState<TrackJobError | null>(null);
+  // Douglas–Peucker tolerance in meters for the exported GPX, or null to write every point
+  const [exportTolerance, setExportTolerance] = useState<number | null>(null);
+  const [profileClimb, setProfileClimb] = useState<ClimbSegment | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Waypoints whose labels the user removed, which rebuilds do not label again
+  const removedWaypoints = useRef(new Set<number>());
+  const {
+    progress: trackProgress,
+    parseFile,
+    rebuild,
+    detectClimbs,
+    cancel: cancelTrackJob,
+  } = useTrackWorker();
+
+  // Segments are shared between selections, so their lengths only change with a new file
+  const segmentLengths = useMemo(
+    () => gpxData?.segments.map(segmentLength) ?? [],
+    [gpxData?.segments]
+  );
+
+  // A file being parsed or repaired replaces the track, so option changes made meanwhile are only stored. Rebuilding
+  // the outgoing track would cancel the job and drop the new file.
+  const loadingTrack =
+    trackProgress?.job === "parse" || trackProgress?.job === "repair";
+
+  const elevationGain = buildOptions.elevationGain ?? DEFAULT_ELEVATION_GAIN;
+  const climbScoring = buildOptions.climbScoring ?? DEFAULT_CLIMB_SCORING;
+
+  const longStops = useMemo(
+    () =>
+      gpxData?.rideStats?.stops.filter(
+        (stop) => stop.duration >= LONG_STOP_DURATION
+      ) ?? [],
+    [gpxData?.rideStats]
+  );
+
+  const sensorChannels = useMemo(
+    () => (gpxData ? availableChannels(gpxData.elevationPoints) : []),
+    [gpxData]
+  );
+
+  // The selection is kept across files, but only drawn when the current track recorded that channel
+  const activeOverlayChannel =
+    overlayChannel && sensorChannels.includes(overlayChannel)
+      ? overlayChannel
+      : null;
+
+  const anomalyCounts = useMemo(() => {
+    const counts: Record<AnomalyType, number> = {
+      gradient: 0,
+      spike: 0,
+      gap: 0,
+    };
+    gpxData?.anomalies.forEach((anomaly) => counts[anomaly.type]++);
+    return counts;
+  }, [gpxData?.anomalies]);
+
+  const missingElevationCount = useMemo(() => {
+    let count = 0;
+    gpxData?.segments.forEach((segment) =>
+      segment.points.forEach((point) => {
+        if (isMissingElevation(point.elevation)) count++;
+      })
+    );
+    return count;
+  }, [gpxData?.segments]);
+
+  // Climbs are detected alongside parsing in the track worker
+  const loadTrackData = useCallback(
+    (data: GPXData, climbs: ClimbSegment[], descents: DescentSegment[]) => {
+      setGpxData(data);
+      setDetectedClimbs(climbs);
+      setDetectedDescents(descents);
+
+      removedWaypoints.current.clear();
+      const waypointLabels = data.waypoints.map(labelFromWaypoint);
+      addClimbDetails(waypointLabels, climbs);
+      setLabels(replaceClimbLabels(waypointLabels, climbs));
+    },
+    []
+  );
+
+  // A rebuilt track keeps its labels on the new distances, apart from those generated for the climbs it replaces
+  const updateTrackData = useCallback(
+    (
+      previous: GPXData,
+      data: GPXData,
+      climbs: ClimbSegment[],
+      descents: DescentSegment[]
+    ) => {
+      setGpxData(data);
+      setDetectedClimbs(climbs);
+      setDetectedDescents(descents);
+      setLabels((prev) =>
+        replaceClimbLabels(
+          moveLabels(
+            prev,
+            previous.elevationPoints,
+            data,
+            climbs,
+            removedWaypoints.current
+          ),
+          climbs
+        )
+      );
+    },
+    []
+  );
 
   const handleFileUpload = useCallback(
     async (event: React.ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
       if (!file) return;
 
+      // An official length belongs to the previous route, so the new one is measured as it is
+      const nextOptions = { ...buildOptions, officialDistance: undefined };
+      setBuildOptions(nextOptions);
+
       try {
-        const text = await file.text();
-        const data = parseGPX(text);
-        setGpxData(data);
-        setLabels([]);
-
-        // Automatically detect climbs
-        const climbs = detectClimbs(data.elevationPoints);
-        setDetectedClimbs(climbs);
-
-        // Automatically generate labels for significant climbs (category 3 and above)
-        const autoLabels: LabelPoint[] = climbs
-          .filter(
-            (climb) =>
-              climb.category && ["HC", "1", "2", "3"].includes(climb.category)
-          )
-          .map((climb) => ({
-            id: `climb-${Date.now()}-${Math.random()}`,
-            distance: climb.peakDistance,
-            elevation: climb.peakElevation,
-            name: climb.name,
-            category: climb.category!,
-            averageGradient: climb.averageGradient,
-          }));
-
-        setLabels(autoLabels);
+        const buffer = await file.arrayBuffer();
+        const result = await parseFile(buffer, nextOptions, demTiles);
+        if (!result) return;
+
+        if (result.report && hasTrackIssues(result.report)) {
+          setPendingTrack(result);
+        } else {
+          loadTrackData(result.data, result.climbs, result.descents);
+        }
       } catch (error) {
-        console.error("Error parsing GPX file:", error);
-        alert("Error parsing GPX file. Please ensure it's a valid GPX file.");
+        console.error("Error parsing track file:", error);
+        setParseError(
+          error instanceof TrackJobError
+            ? error
+            : new TrackJobError(String(error))
+        );
       }
     },
-    []
+    [buildOptions, demTiles, loadTrackData, parseFile]
+  );
+
+  const loadPendingTrack = useCallback(() => {
+    if (!pendingTrack) return;
+    setPendingTrack(null);
+    loadTrackData(
+      pendingTrack.data,
+      pendingTrack.climbs,
+      pendingTrack.descents
+    );
+  }, [pendingTrack, loadTrackData]);
+
+  const repairPendingTrack = useCallback(async () => {
+    if (!pendingTrack) return;
+    setPendingTrack(null);
+
+    try {
+      const result = await rebuild(
+        pendingTrack.data,
+        buildOptions,
+        demTiles,
+        "repair"
+      );
+      if (result) loadTrackData(result.data, result.climbs, result.descents);
+    } catch (error) {
+      console.error("Error repairing track file:", error);
+      setParseError(
+        error instanceof TrackJobError
+          ? error
+          : new TrackJobError(String(error))
+      );
+    }
+  }, [buildOptions, demTiles, loadTrackData, pendingTrack, rebuild]);
+
+  // Rebuilds the loaded track from its source segments whenever a processing option changes
+  const updateBuildOptions = useCallback(
+    async (updates: Partial<TrackJobOptions>, tiles: HGTTile[] = demTiles) => {
+      const nextOptions = { ...buildOptions, ...updates };
+      setBuildOptions(nextOptions);
+      if (!gpxData || loadingTrack) return;
+
+      try {
+        const result = await rebuild(gpxData, nextOptions, tiles);
+        if (result) {
+          updateTrackData(gpxData, result.data, result.climbs, result.descents);
+        }
+      } catch (error) {
+        reportRebuildError(error);
+      }
+    },
+    [buildOptions, demTiles, gpxData, loadingTrack, rebuild, updateTrackData]
+  );
+
+  // Climb settings only need detection run again on the built profile. A rebuild under way would be cancelled by
+  // that, so it is restarted with the new settings instead.
+  const updateClimbOptions = useCallback(
+    async (updates: ClimbJobOptions) => {
+      if (trackProgress?.job === "rebuild") {
+        await updateBuildOptions(updates);
+        return;
+      }
+
+      const nextOptions = { ...buildOptions, ...updates };
+      setBuildOptions(nextOptions);
+      if (!gpxData || loadingTrack) return;
+
+      try {
+        const result = await detectClimbs(gpxData, nextOptions);
+        if (result) {
+          setDetectedClimbs(result.climbs);
+          setDetectedDescents(result.descents);
+          setLabels((prev) => replaceClimbLabels(prev, result.climbs));
+        }
+      } catch (error) {
+        reportRebuildError(error);
+      }
+    },
+    [
+      buildOptions,
+      detectClimbs,
+      gpxData,
+      loadingTrack,
+      trackProgress,
+      updateBuildOptions,
+    ]
+  );
+
+  // Gain and loss do not move any points, so labels and climbs are kept
+  const updateElevationGain = useCallback(
+    async (updates: Partial<ElevationGainOptions>) => {
+      const nextOptions = {
+        ...buildOptions,
+        elevationGain: {
+          ...(buildOptions.elevationGain ?? DEFAULT_ELEVATION_GAIN),
+          ...updates,
+        },
+      };
+      setBuildOptions(nextOptions);
+      if (!gpxData || loadingTrack) return;
+
+      try {
+        const result = await rebuild(gpxData, nextOptions, demTiles);
+        if (result) setGpxData(result.data);
+      } catch (error) {
+        reportRebuildError(error);
+      }
+    },
+    [buildOptions, demTiles, gpxData, loadingTrack, rebuild]
+  );
+
+  const commitThreshold = useCallback(() => {
+    if (thresholdDraft === null) return;
+    setThresholdDraft(null);
+
+    const threshold = Math.max(0, Number(thresholdDraft) || 0);
+    if (threshold !== elevationGain.threshold) {
+      updateElevationGain({ threshold });
+    }
+  }, [elevationGain.threshold, thresholdDraft, updateElevationGain]);
+
+  const handleTileUpload = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const files = event.target.files;
+      if (!files || files.length === 0) return;
+
+      try {
+        const loadedTiles = await loadHGTFiles(files);
+        // A re-uploaded tile replaces the earlier copy of the same area
+        const tiles = [
+          ...demTiles.filter(
+            (tile) =>
+              !loadedTiles.some(
+                (loaded) =>
+                  loaded.latitude === tile.latitude &&
+                  loaded.longitude === tile.longitude
+              )
+          ),
+          ...loadedTiles,
+        ];
+        setDemTiles(tiles);
+        await updateBuildOptions({}, tiles);
+      } catch (error) {
+        console.error("Error loading elevation tiles:", error);
+        alert(
+          "Error loading elevation tiles. Please select SRTM .hgt files named like N45E006.hgt."
+        );
+      }
+    },
+    [demTiles, updateBuildOptions]
+  );
+
+  const toggleSegment = useCallback(
+    async (segmentIndex: number) => {
+      if (!gpxData || loadingTrack) return;
+
+      const selected = gpxData.selectedSegments.includes(segmentIndex)
+        ? gpxData.selectedSegments.filter((index) => index !== segmentIndex)
+        : [...gpxData.selectedSegments, segmentIndex];
+
+      // At least one segment has to stay selected to draw a profile
+      if (selected.length === 0) return;
+
+      // An official length was measured against the previous selection, so it is cleared with it
+      const nextOptions = { ...buildOptions, officialDistance: undefined };
+      setBuildOptions(nextOptions);
+
+      try {
+        const result = await rebuild(
+          gpxData,
+          { ...nextOptions, selectedSegments: selected },
+          demTiles
+        );
+        if (result) {
+          updateTrackData(gpxData, result.data, result.climbs, result.descents);
+        }
+      } catch (error) {
+        reportRebuildError(error);
+      }
+    },
+    [buildOptions, demTiles, gpxData, loadingTrack, rebuild, updateTrackData]
   );
 
   const handleProfileClick = useCallback(
@@ -125,16 +634,24 @@ export default function GPXElevationProfiler() {
     (labelId: string, updates: Partial<LabelPoint>) => {
       setLabels((prev) =>
         prev.map((label) =>
-          label.id === labelId ? { ...label, ...updates } : label
+          label.id === labelId
+            ? { ...label, ...updates, generated: false }
+            : label
         )
       );
     },
     []
   );
 
-  const removeLabel = useCallback((id: string) => {
-    setLabels((prev) => prev.filter((label) => label.id !== id));
-  }, []);
+  const removeLabel = useCallback(
+    (id: string) => {
+      // A removed waypoint label stays removed when a rebuild brings its waypoint back onto the track
+      const waypoint = labels.find((label) => label.id === id)?.waypoint;
+      if (waypoint !== undefined) removedWaypoints.current.add(waypoint);
+      setLabels((prev) => prev.filter((label) => label.id !== id));
+    },
+    [labels]
+  );
 
   const startEditingLabel = useCallback((label: LabelPoint) => {
     setEditingLabel(label.id);
@@ -194,6 +711,36 @@ export default function GPXElevationProfiler() {
     }, 100);
   }, []);
 
+  const downloadGPX = useCallback(() => {
+    if (!gpxData) return;
+
+    const gpx = exportGPX(gpxData, labels, {
+      name: `${startName} – ${finishName}`,
+      simplifyTolerance: exportTolerance ?? undefined,
+      elevationProvider:
+        demTiles.length > 0 ? createSRTMProvider(demTiles) : null,
+      replaceElevations: buildOptions.replaceElevations,
+    });
+    const url = URL.createObjectURL(
+      new Blob([gpx], { type: "application/gpx+xml" })
+    );
+
+    const link = document.createElement("a");
+    link.download = "elevation-profile.gpx";
+    link.href = url;
+    link.click();
+    // The download starts after the click event has been handled, so the URL has to outlive it
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }, [
+    gpxData,
+    labels,
+    startName,
+    finishName,
+    exportTolerance,
+    demTiles,
+    buildOptions.replaceElevations,
+  ]);
+
   return (
     <div className="min-h-screen bg-gray-50 p-4">
       <div className="max-w-7xl mx-auto space-y-6">
@@ -216,7 +763,8 @@ export default function GPXElevationProfiler() {
                   Upload GPX File
                 </CardTitle>
                 <CardDescription>
-                  Select a GPX file to generate the elevation profile
+                  Select a GPX, TCX, FIT, KML or GeoJSON file to generate the
+                  elevation profile
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -225,11 +773,63 @@ export default function GPXElevationProfiler() {
                     <Input
                       ref={fileInputRef}
                       type="file"
-                      accept=".gpx"
+                      accept={TRACK_FILE_EXTENSIONS.join(",")}
                       onChange={handleFileUpload}
                       className="cursor-pointer"
                     />
                   </div>
+                  {trackProgress && (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between text-sm text-gray-600">
+                        <span>{TRACK_STAGES[trackProgress.stage]}…</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={cancelTrackJob}
+                        >
+                          <X className="h-4 w-4 mr-1" />
+                          Cancel
+                        </Button>
+                      </div>
+                      <Progress value={trackProgress.value} />
+                    </div>
+                  )}
+                  {gpxData && gpxData.segments.length > 1 && (
+                    <div className="space-y-2">
+                      <h4 className="font-medium text-sm text-gray-700">
+                        Tracks &amp; Segments
+                      </h4>
+                      <div className="space-y-2 max-h-40 overflow-y-auto">
+                        {gpxData.segments.map((segment, index) => (
+                          <div key={index} className="flex items-start gap-2">
+                            <Checkbox
+                              id={`segment-${index}`}
+                              checked={gpxData.selectedSegments.includes(index)}
+                              onCheckedChange={() => toggleSegment(index)}
+                            />
+                            <Label
+                              htmlFor={`segment-${index}`}
+                              className="text-sm font-normal leading-tight"
+                            >
+                              {segment.name}
+                              <span className="text-gray-500">
+                                {" "}
+                                (
+                                {formatNumberEuropean(
+                                  segmentLengths[index],
+                                  1
+                                )}{" "}
+                                km)
+                              </span>
+                            </Label>
+                          </div>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        Selected segments are joined in file order
+                      </p>
+                    </div>
+                  )}
                   {gpxData && (
                     <div className="text-sm text-gray-600 space-y-1">
                       <p>
@@ -240,6 +840,10 @@ export default function GPXElevationProfiler() {
                         <strong>Elevation Gain:</strong>{" "}
                         {formatNumberEuropean(gpxData.totalElevationGain, 0)} m
                       </p>
+                      <p>
+                        <strong>Elevation Loss:</strong>{" "}
+                        {formatNumberEuropean(gpxData.totalElevationLoss, 0)} m
+                      </p>
                       <p>
                         <strong>Max Elevation:</strong>{" "}
                         {formatNumberEuropean(gpxData.maxElevation, 0)} m
@@ -252,12 +856,274 @@ export default function GPXElevationProfiler() {
                         <strong>Climbs Detected:</strong>{" "}
                         {detectedClimbs.length}
                       </p>
+                      {gpxData.gaps.length > 0 && (
+                        <p>
+                          <strong>Gaps Skipped:</strong> {gpxData.gaps.length} (
+                          {formatNumberEuropean(
+                            gpxData.gaps.reduce(
+                              (sum, gap) => sum + gap.length,
+                              0
+                            ),
+                            1
+                          )}{" "}
+                          km)
+                        </p>
+                      )}
+                      {gpxData.rideStats && (
+                        <>
+                          <p>
+                            <strong>Elapsed Time:</strong>{" "}
+                            {formatDuration(gpxData.rideStats.elapsedTime)}
+                          </p>
+                          <p>
+                            <strong>Moving Time:</strong>{" "}
+                            {formatDuration(gpxData.rideStats.movingTime)}
+                          </p>
+                          <p>
+                            <strong>Average Speed:</strong>{" "}
+                            {formatNumberEuropean(
+                              gpxData.rideStats.averageSpeed,
+                              1
+                            )}{" "}
+                            km/h
+                          </p>
+                          <p>
+                            <strong>Stops:</strong>{" "}
+                            {gpxData.rideStats.stops.length}
+                          </p>
+                          {longStops.length > 0 && (
+                            <div className="flex items-center justify-between gap-2">
+                              <Label htmlFor="show-stops">
+                                Mark stops over{" "}
+                                {Math.round(LONG_STOP_DURATION / 60)} min
+                              </Label>
+                              <Switch
+                                id="show-stops"
+                                checked={showStops}
+                                onCheckedChange={setShowStops}
+                              />
+                            </div>
+                          )}
+                        </>
+                      )}
+                      <div className="flex items-center gap-2 pt-2">
+                        <Select
+                          value={elevationGain.method}
+                          onValueChange={(method) =>
+                            updateElevationGain({
+                              method: method as ElevationGainMethod,
+                            })
+                          }
+                        >
+                          <SelectTrigger size="sm" className="flex-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(ELEVATION_GAIN_METHODS).map(
+                              ([method, name]) => (
+                                <SelectItem key={method} value={method}>
+                                  {name}
+                                </SelectItem>
+                              )
+                            )}
+                          </SelectContent>
+                        </Select>
+                        {elevationGain.method === "hysteresis" && (
+                          <div className="flex items-center gap-1">
+                            <Input
+                              type="number"
+                              min={0}
+                              step={1}
+                              value={thresholdDraft ?? elevationGain.threshold}
+                              onChange={(e) =>
+                                setThresholdDraft(e.target.value)
+                              }
+                              onBlur={commitThreshold}
+                              onKeyDown={(e) =>
+                                e.key === "Enter" && commitThreshold()
+                              }
+                              className="h-8 w-16"
+                              aria-label="Hysteresis threshold in meters"
+                            />
+                            <span>m</span>
+                          </div>
+                        )}
+                      </div>
                     </div>
                   )}
                 </div>
               </CardContent>
             </Card>
 
+            {gpxData && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Mountain className="h-5 w-5" />
+                    Elevation Data
+                  </CardTitle>
+                  <CardDescription>
+                    Fill missing elevations from SRTM terrain tiles and fix GPS
+                    errors
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {missingElevationCount > 0 && (
+                      <p className="text-sm text-amber-600">
+                        {missingElevationCount} points have no elevation
+                        {demTiles.length === 0 &&
+                          " — load tiles covering the route to fill them"}
+                      </p>
+                    )}
+                    <div className="space-y-2">
+                      <Label htmlFor="dem-tiles">SRTM tiles (.hgt)</Label>
+                      <Input
+                        id="dem-tiles"
+                        type="file"
+                        accept=".hgt"
+                        multiple
+                        onChange={handleTileUpload}
+                        className="cursor-pointer"
+                      />
+                      {demTiles.length > 0 && (
+                        <p className="text-xs text-gray-500">
+                          {demTiles.length} tile
+                          {demTiles.length === 1 ? "" : "s"} loaded
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <Label htmlFor="replace-elevations">
+                        Replace recorded elevations
+                      </Label>
+                      <Switch
+                        id="replace-elevations"
+                        checked={buildOptions.replaceElevations ?? false}
+                        disabled={demTiles.length === 0}
+                        onCheckedChange={(checked) =>
+                          updateBuildOptions({ replaceElevations: checked })
+                        }
+                      />
+                    </div>
+                    {gpxData.anomalies.length > 0 && (
+                      <div className="space-y-2 border-t pt-4">
+                        <h4 className="font-medium text-sm text-gray-700">
+                          GPS anomalies
+                        </h4>
+                        <ul className="text-sm text-gray-600">
+                          {(Object.keys(ANOMALY_TYPES) as AnomalyType[])
+                            .filter((type) => anomalyCounts[type] > 0)
+                            .map((type) => (
+                              <li key={type}>
+                                {ANOMALY_TYPES[type]}: {anomalyCounts[type]}
+                              </li>
+                            ))}
+                        </ul>
+                        <div className="flex items-center justify-between gap-2">
+                          <Label htmlFor="interpolate-anomalies">
+                            Interpolate before detecting climbs
+                          </Label>
+                          <Switch
+                            id="interpolate-anomalies"
+                            checked={buildOptions.interpolateAnomalies ?? false}
+                            onCheckedChange={(checked) =>
+                              updateBuildOptions({
+                                interpolateAnomalies: checked,
+                              })
+                            }
+                          />
+                        </div>
+                        <div className="flex items-center justify-between gap-2">
+                          <Label htmlFor="show-anomalies">
+                            Highlight on profile
+                          </Label>
+                          <Switch
+                            id="show-anomalies"
+                            checked={showAnomalies}
+                            onCheckedChange={setShowAnomalies}
+                          />
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {gpxData && (
+              <SmoothingSettings
+                smoothing={buildOptions.smoothing ?? DEFAULT_SMOOTHING}
+                onChange={(smoothing) => updateBuildOptions({ smoothing })}
+              />
+            )}
+
+            {gpxData && (
+              <DistanceSettings
+                options={buildOptions}
+                totalDistance={gpxData.totalDistance}
+                recordedDistances={gpxData.recordedDistances}
+                onChange={updateBuildOptions}
+              />
+            )}
+
+            {sensorChannels.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Activity className="h-5 w-5" />
+                    Sensor Data
+                  </CardTitle>
+                  <CardDescription>
+                    Overlay a recorded sensor channel on the profile
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    <Label>Overlay</Label>
+                    <Select
+                      value={activeOverlayChannel ?? "none"}
+                      onValueChange={(value) =>
+                        setOverlayChannel(
+                          value === "none" ? null : (value as SensorChannel)
+                        )
+                      }
+                    >
+                      <SelectTrigger className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        {sensorChannels.map((channel) => (
+                          <SelectItem key={channel} value={channel}>
+                            {SENSOR_CHANNELS[channel].name} (
+                            {SENSOR_CHANNELS[channel].unit})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {gpxData && (
+              <ClimbDetectionSettings
+                options={buildOptions.climbDetection ?? DEFAULT_CLIMB_DETECTION}
+                scoring={climbScoring}
+                raceEvent={buildOptions.raceEvent}
+                onChange={(climbDetection) =>
+                  updateClimbOptions({ climbDetection })
+                }
+                onScoringChange={(scoring) =>
+                  updateClimbOptions({ climbScoring: scoring })
+                }
+                onRaceEventChange={(raceEvent) =>
+                  updateClimbOptions({ raceEvent })
+                }
+              />
+            )}
+
             {detectedClimbs.length > 0 && (
               <Card>
                 <CardHeader>
@@ -305,21 +1171,41 @@ export default function GPXElevationProfiler() {
                                   {climb.category}
                                 </span>
                               )}
+                              {climb.summitFinish && climb.category && (
+                                <span className="ml-2 text-xs text-gray-600">
+                                  Summit finish
+                                </span>
+                              )}
+                              {climb.highestPoint && (
+                                <div className="text-xs font-medium text-amber-700">
+                                  {climb.highestPoint}
+                                </div>
+                              )}
                             </div>
-                            {climb.category && !isAlreadyAdded && (
+                            <div className="flex items-center gap-2">
                               <Button
                                 variant="outline"
                                 size="sm"
-                                onClick={() => addClimbLabel(climb)}
+                                onClick={() => setProfileClimb(climb)}
+                                title="Climb profile"
                               >
-                                Add
+                                <ChartColumn className="h-4 w-4" />
                               </Button>
-                            )}
-                            {isAlreadyAdded && (
-                              <span className="text-xs text-green-600 font-medium">
-                                Added
-                              </span>
-                            )}
+                              {climb.category && !isAlreadyAdded && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => addClimbLabel(climb)}
+                                >
+                                  Add
+                                </Button>
+                              )}
+                              {isAlreadyAdded && (
+                                <span className="text-xs text-green-600 font-medium">
+                                  Added
+                                </span>
+                              )}
+                            </div>
                           </div>
                           <div className="text-gray-600 mt-1">
                             <div>
@@ -329,8 +1215,56 @@ export default function GPXElevationProfiler() {
                             </div>
                             <div>
                               {formatNumberEuropean(climb.averageGradient, 1)}%
-                              avg • Score:{" "}
-                              {formatNumberEuropean(climb.score, 0)}
+                              avg • max{" "}
+                              {formatNumberEuropean(climb.maxGradient, 1)}%{" "}
+                              {formatNumberEuropean(
+                                climb.endDistance - climb.maxGradientDistance,
+                                1
+                              )}{" "}
+                              km from the summit
+                            </div>
+                            <div
+                              className="flex h-5 mt-1 rounded overflow-hidden"
+                              title="Gradient per section, from the foot to the summit"
+                            >
+                              {climb.sections.map((section) => (
+                                <div
+                                  key={section.startDistance}
+                                  className="flex items-center justify-center text-[10px] text-white"
+                                  style={{
+                                    flexGrow:
+                                      section.endDistance -
+                                      section.startDistance,
+                                    backgroundColor: gradientColor(
+                                      section.gradient
+                                    ),
+                                  }}
+                                >
+                                  {formatNumberEuropean(section.gradient, 0)}
+                                </div>
+                              ))}
+                            </div>
+                            <div className="text-xs mt-1">
+                              {(
+                                Object.keys(CLIMB_SCORINGS) as ClimbScoring[]
+                              ).map((name) => (
+                                <div
+                                  key={name}
+                                  className={`flex justify-between ${
+                                    name === climbScoring
+                                      ? "font-medium text-gray-900"
+                                      : ""
+                                  }`}
+                                >
+                                  <span>{CLIMB_SCORINGS[name].name}</span>
+                                  <span>
+                                    {formatNumberEuropean(
+                                      climb.scores[name],
+                                      CLIMB_SCORINGS[name].decimals
+                                    )}
+                                  </span>
+                                </div>
+                              ))}
                             </div>
                           </div>
                         </div>
@@ -341,6 +1275,66 @@ export default function GPXElevationProfiler() {
               </Card>
             )}
 
+            {detectedDescents.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingDown className="h-5 w-5" />
+                    Descents
+                  </CardTitle>
+                  <CardDescription>
+                    Descents found with the climb detection thresholds
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    <div className="space-y-2 max-h-48 overflow-y-auto">
+                      {detectedDescents.map((descent) => (
+                        <div
+                          key={descent.startDistance}
+                          className="bg-gray-100 p-3 rounded text-sm"
+                        >
+                          <div className="flex items-center justify-between">
+                            <span className="font-medium">
+                              km{" "}
+                              {formatNumberEuropean(descent.startDistance, 1)}–
+                              {formatNumberEuropean(descent.endDistance, 1)}
+                            </span>
+                            {descent.technical && (
+                              <span className="px-1 py-0.5 rounded text-xs text-white bg-blue-600">
+                                Technical
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-gray-600 mt-1">
+                            <div>
+                              {formatNumberEuropean(descent.length, 1)} km •{" "}
+                              {formatNumberEuropean(descent.drop, 0)}m drop
+                            </div>
+                            <div>
+                              {formatNumberEuropean(descent.averageGradient, 1)}
+                              % avg • max{" "}
+                              {formatNumberEuropean(descent.maxGradient, 1)}% •{" "}
+                              {formatNumberEuropean(descent.curvature, 0)}° of
+                              bends per km
+                            </div>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <Label htmlFor="show-descents">Shade on profile</Label>
+                      <Switch
+                        id="show-descents"
+                        checked={showDescents}
+                        onCheckedChange={setShowDescents}
+                      />
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {gpxData && (
               <Card>
                 <CardHeader>
@@ -386,6 +1380,38 @@ export default function GPXElevationProfiler() {
                 Download image
               </Button>
             )}
+
+            {gpxData && (
+              <div className="space-y-2">
+                <Label>Exported track points</Label>
+                <Select
+                  value={exportTolerance?.toString() ?? "all"}
+                  onValueChange={(value) =>
+                    setExportTolerance(value === "all" ? null : Number(value))
+                  }
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All points</SelectItem>
+                    {SIMPLIFY_TOLERANCES.map((tolerance) => (
+                      <SelectItem key={tolerance} value={tolerance.toString()}>
+                        Simplified to within {tolerance} m
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={downloadGPX}
+                  variant="outline"
+                  className="w-full whitespace-normal text-wrap"
+                >
+                  <Route className="h-4 w-4 mr-2" />
+                  Download GPX with labels
+                </Button>
+              </div>
+            )}
           </div>
 
           <div className="lg:col-span-3 space-y-6">
@@ -415,6 +1441,15 @@ export default function GPXElevationProfiler() {
                     startName={startName}
                     finishName={finishName}
                     hideOutlines={hideOutlines}
+                    stops={showStops ? longStops : NO_OVERLAY}
+                    overlayChannel={activeOverlayChannel}
+                    // Anomalies are a check on the data, left out of the downloaded image
+                    anomalies={
+                      showAnomalies && !hideOutlines
+                        ? gpxData.anomalies
+                        : NO_OVERLAY
+                    }
+                    descents={showDescents ? detectedDescents : NO_OVERLAY}
                   />
                 </CardContent>
               </Card>
@@ -664,6 +1699,22 @@ export default function GPXElevationProfiler() {
           </div>
         </div>
       </div>
+
+      <TrackReportDialog
+        report={pendingTrack?.report ?? null}
+        error={parseError}
+        onRepair={repairPendingTrack}
+        onLoadAsIs={loadPendingTrack}
+        onClose={() => {
+          setPendingTrack(null);
+          setParseError(null);
+        }}
+      />
+
+      <ClimbProfileDialog
+        climb={profileClimb}
+        onClose={() => setProfileClimb(null)}
+      />
     </div>
   );
 }
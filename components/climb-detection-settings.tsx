@@ -0,0 +1,240 @@
+"use client";
+
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { TrendingUp } from "lucide-react";
+import {
+  CLIMB_DETECTION_PRESETS,
+  type ClimbDetectionOptions,
+  type ClimbDetectionPreset,
+} from "../lib/climb-detector";
+import { CLIMB_SCORINGS, type ClimbScoring } from "../lib/climb-scoring";
+import { RACE_EVENTS, type RaceEvent } from "../lib/race-events";
+import { formatNumberEuropean } from "../lib/format-number";
+
+interface ClimbDetectionSettingsProps {
+  options: ClimbDetectionOptions;
+  scoring: ClimbScoring;
+  raceEvent?: RaceEvent;
+  onChange: (options: ClimbDetectionOptions) => void;
+  onScoringChange: (scoring: ClimbScoring) => void;
+  onRaceEventChange: (raceEvent: RaceEvent | undefined) => void;
+}
+
+// One slider per threshold, with its range and how its value is shown
+const THRESHOLDS: Array<{
+  key: keyof ClimbDetectionOptions;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}> = [
+  {
+    key: "minClimbLength",
+    label: "Minimum length",
+    min: 0.1,
+    max: 5,
+    step: 0.1,
+    format: (value) => `${formatNumberEuropean(value, 1)} km`,
+  },
+  {
+    key: "minElevationGain",
+    label: "Minimum gain",
+    min: 10,
+    max: 300,
+    step: 10,
+    format: (value) => `${value} m`,
+  },
+  {
+    key: "gradientThreshold",
+    label: "Gradient threshold",
+    min: 1,
+    max: 10,
+    step: 0.5,
+    format: (value) => `${formatNumberEuropean(value, 1)}%`,
+  },
+  {
+    key: "mergeDistance",
+    label: "Longest flat within a climb",
+    min: 0,
+    max: 5,
+    step: 0.1,
+    format: (value) => `${formatNumberEuropean(value, 1)} km`,
+  },
+  {
+    key: "maxMergeDescent",
+    label: "Deepest dip within a climb",
+    min: 0,
+    max: 100,
+    step: 5,
+    format: (value) => `${value} m`,
+  },
+];
+
+function matchingPreset(
+  options: ClimbDetectionOptions
+): ClimbDetectionPreset | "custom" {
+  const preset = (
+    Object.keys(CLIMB_DETECTION_PRESETS) as ClimbDetectionPreset[]
+  ).find((name) =>
+    THRESHOLDS.every(
+      ({ key }) => CLIMB_DETECTION_PRESETS[name].options[key] === options[key]
+    )
+  );
+  return preset ?? "custom";
+}
+
+export function ClimbDetectionSettings({
+  options,
+  scoring,
+  raceEvent,
+  onChange,
+  onScoringChange,
+  onRaceEventChange,
+}: ClimbDetectionSettingsProps) {
+  // Thresholds follow the slider while it is dragged, and climbs are detected again once it is let go
+  const [draft, setDraft] = useState(options);
+
+  const applyPreset = (preset: ClimbDetectionPreset) => {
+    const presetOptions = CLIMB_DETECTION_PRESETS[preset].options;
+    setDraft(presetOptions);
+    onChange(presetOptions);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          Climb Detection
+        </CardTitle>
+        <CardDescription>
+          Tune which rises count as climbs, from short bergs to long cols
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Preset</Label>
+            <Select
+              value={matchingPreset(draft)}
+              onValueChange={(value) =>
+                applyPreset(value as ClimbDetectionPreset)
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(
+                  Object.keys(CLIMB_DETECTION_PRESETS) as ClimbDetectionPreset[]
+                ).map((preset) => (
+                  <SelectItem key={preset} value={preset}>
+                    {CLIMB_DETECTION_PRESETS[preset].name}
+                  </SelectItem>
+                ))}
+                <SelectItem value="custom" disabled>
+                  Custom
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Difficulty score</Label>
+            <Select
+              value={scoring}
+              onValueChange={(value) => onScoringChange(value as ClimbScoring)}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CLIMB_SCORINGS) as ClimbScoring[]).map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {CLIMB_SCORINGS[name].name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">
+              Categories are derived from this score
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Categorise as</Label>
+            <Select
+              value={raceEvent ?? "none"}
+              onValueChange={(value) =>
+                onRaceEventChange(
+                  value === "none" ? undefined : (value as RaceEvent)
+                )
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Score only</SelectItem>
+                {(Object.keys(RACE_EVENTS) as RaceEvent[]).map((event) => (
+                  <SelectItem key={event} value={event}>
+                    {RACE_EVENTS[event].name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {raceEvent && (
+              <p className="text-xs text-gray-500">
+                {RACE_EVENTS[raceEvent].summitFinishUpgrade
+                  ? "Summit finishes move up a category"
+                  : "Summit finishes keep their category"}
+                {RACE_EVENTS[raceEvent].highestPointName &&
+                  `; the highest summit is the ${RACE_EVENTS[raceEvent].highestPointName}`}
+              </p>
+            )}
+          </div>
+
+          {THRESHOLDS.map(({ key, label, min, max, step, format }) => (
+            <div key={key} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>{label}</Label>
+                <span className="text-sm text-gray-600">
+                  {format(draft[key])}
+                </span>
+              </div>
+              <Slider
+                min={min}
+                max={max}
+                step={step}
+                value={[draft[key]]}
+                onValueChange={([value]) =>
+                  setDraft({ ...draft, [key]: value })
+                }
+                onValueCommit={([value]) =>
+                  onChange({ ...draft, [key]: value })
+                }
+              />
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Download } from "lucide-react";
+import type { ClimbSegment } from "../lib/climb-detector";
+import {
+  ClimbProfile,
+  CLIMB_PROFILE_HEIGHT,
+  CLIMB_PROFILE_WIDTH,
+} from "./climb-profile";
+
+interface ClimbProfileDialogProps {
+  climb: ClimbSegment | null;
+  onClose: () => void;
+}
+
+// PNG exports are rendered at twice the drawing size, like the elevation profile canvas
+const PNG_SCALE = 2;
+
+function fileName(climb: ClimbSegment, extension: string): string {
+  const slug = climb.name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "climb"}.${extension}`;
+}
+
+function download(href: string, name: string) {
+  const link = document.createElement("a");
+  link.download = name;
+  link.href = href;
+  link.click();
+}
+
+function serializeSVG(svg: SVGSVGElement): string {
+  return new XMLSerializer().serializeToString(svg);
+}
+
+export function ClimbProfileDialog({
+  climb,
+  onClose,
+}: ClimbProfileDialogProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const downloadSVG = () => {
+    if (!svgRef.current || !climb) return;
+
+    const url = URL.createObjectURL(
+      new Blob([serializeSVG(svgRef.current)], { type: "image/svg+xml" })
+    );
+    download(url, fileName(climb, "svg"));
+    // Released on the next tick, once the browser has started the download
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  };
+
+  // The SVG is drawn onto a canvas through an image, so the PNG matches the vector export exactly
+  const downloadPNG = () => {
+    if (!svgRef.current || !climb) return;
+
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = CLIMB_PROFILE_WIDTH * PNG_SCALE;
+      canvas.height = CLIMB_PROFILE_HEIGHT * PNG_SCALE;
+      const ctx = canvas.getContext("2d");
+      if (!ctx) return;
+
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      download(canvas.toDataURL("image/png"), fileName(climb, "png"));
+    };
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+      serializeSVG(svgRef.current)
+    )}`;
+  };
+
+  return (
+    <Dialog open={Boolean(climb)} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Climb profile</DialogTitle>
+          <DialogDescription>
+            Gradient per section, with kilometers counting down to the summit
+          </DialogDescription>
+        </DialogHeader>
+
+        {climb && <ClimbProfile ref={svgRef} climb={climb} />}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={downloadSVG}>
+            <Download className="h-4 w-4 mr-2" />
+            Download SVG
+          </Button>
+          <Button onClick={downloadPNG}>
+            <Download className="h-4 w-4 mr-2" />
+            Download PNG
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,205 @@
+"use client";
+
+import { forwardRef } from "react";
+import type { ClimbSegment } from "../lib/climb-detector";
+import { gradientColor } from "../lib/gradient-colors";
+import { formatNumberEuropean } from "../lib/format-number";
+
+interface ClimbProfileProps {
+  climb: ClimbSegment;
+}
+
+// Drawn in a fixed coordinate space and scaled to fit, so exports look the same at any screen size
+export const CLIMB_PROFILE_WIDTH = 800;
+export const CLIMB_PROFILE_HEIGHT = 480;
+
+const MARGIN = { top: 90, right: 40, bottom: 50, left: 60 };
+const FONT = "Arial, Helvetica, sans-serif";
+
+// Gradient percentages are left out of blocks narrower than this, where they would not fit
+const MIN_LABELLED_BLOCK_WIDTH = 30;
+
+function elevationStep(span: number): number {
+  if (span > 800) return 200;
+  if (span > 300) return 100;
+  return 50;
+}
+
+// Kilometers to the summit, whole where the marker falls on a whole kilometer
+function formatRemaining(distance: number): string {
+  const whole = Math.abs(distance - Math.round(distance)) < 0.05;
+  return formatNumberEuropean(distance, whole ? 0 : 1);
+}
+
+/**
+ * Draws a single climb as the classic "montée" card from race roadbooks:
+ * one block per section coloured by its gradient, the gradient printed in
+ * each block, and markers counting the kilometers down to the summit.
+ * Rendered as SVG so it can be exported as a vector image as well as PNG.
+ */
+export const ClimbProfile = forwardRef<SVGSVGElement, ClimbProfileProps>(
+  ({ climb }, ref) => {
+    const { sections } = climb;
+    const chartWidth = CLIMB_PROFILE_WIDTH - MARGIN.left - MARGIN.right;
+    const chartHeight = CLIMB_PROFILE_HEIGHT - MARGIN.top - MARGIN.bottom;
+
+    const step = elevationStep(climb.peakElevation - climb.startElevation);
+    const base = Math.floor(climb.startElevation / step) * step;
+    const top = Math.ceil(climb.peakElevation / step) * step + step / 2;
+    const elevationTicks: number[] = [];
+    for (let elevation = base; elevation <= top; elevation += step) {
+      elevationTicks.push(elevation);
+    }
+
+    const x = (distance: number) =>
+      MARGIN.left +
+      (climb.length > 0
+        ? ((distance - climb.startDistance) / climb.length) * chartWidth
+        : 0);
+    const y = (elevation: number) =>
+      MARGIN.top +
+      chartHeight -
+      ((elevation - base) / (top - base)) * chartHeight;
+    const baseline = y(base);
+
+    return (
+      <svg
+        ref={ref}
+        xmlns="http://www.w3.org/2000/svg"
+        viewBox={`0 0 ${CLIMB_PROFILE_WIDTH} ${CLIMB_PROFILE_HEIGHT}`}
+        width={CLIMB_PROFILE_WIDTH}
+        height={CLIMB_PROFILE_HEIGHT}
+        className="w-full h-auto"
+        fontFamily={FONT}
+      >
+        <rect
+          width={CLIMB_PROFILE_WIDTH}
+          height={CLIMB_PROFILE_HEIGHT}
+          fill="#ffffff"
+        />
+
+        <text x={MARGIN.left} y={36} fontSize={24} fontWeight="bold">
+          {climb.name}
+          {climb.category &&
+            (climb.category === "HC" ? " (HC)" : ` (cat. ${climb.category})`)}
+        </text>
+        <text x={MARGIN.left} y={62} fontSize={15} fill="#4b5563">
+          {formatNumberEuropean(climb.length, 1)} km at{" "}
+          {formatNumberEuropean(climb.averageGradient, 1)}% •{" "}
+          {formatNumberEuropean(climb.elevationGain, 0)} m gain • max{" "}
+          {formatNumberEuropean(climb.maxGradient, 1)}%
+        </text>
+
+        {elevationTicks.map((elevation) => (
+          <g key={elevation}>
+            <line
+              x1={MARGIN.left}
+              x2={MARGIN.left + chartWidth}
+              y1={y(elevation)}
+              y2={y(elevation)}
+              stroke="#e5e7eb"
+            />
+            <text
+              x={MARGIN.left - 8}
+              y={y(elevation) + 4}
+              fontSize={11}
+              textAnchor="end"
+              fill="#6b7280"
+            >
+              {elevation} m
+            </text>
+          </g>
+        ))}
+
+        {sections.map((section) => {
+          const x1 = x(section.startDistance);
+          const x2 = x(section.endDistance);
+          const outline = [
+            [x1, baseline],
+            [x1, y(section.startElevation)],
+            [x2, y(section.endElevation)],
+            [x2, baseline],
+          ];
+          return (
+            <g key={section.startDistance}>
+              <polygon
+                points={outline.map((point) => point.join(",")).join(" ")}
+                fill={gradientColor(section.gradient)}
+                stroke="#ffffff"
+                strokeWidth={1.5}
+              />
+              {x2 - x1 >= MIN_LABELLED_BLOCK_WIDTH && (
+                <text
+                  x={(x1 + x2) / 2}
+                  y={baseline - 10}
+                  fontSize={13}
+                  fontWeight="bold"
+                  textAnchor="middle"
+                  fill="#ffffff"
+                >
+                  {formatNumberEuropean(section.gradient, 1)}%
+                </text>
+              )}
+              <text
+                x={x1}
+                y={y(section.startElevation) - 6}
+                fontSize={10}
+                textAnchor="middle"
+                fill="#374151"
+              >
+                {Math.round(section.startElevation)}
+              </text>
+              <text
+                x={x1}
+                y={baseline + 18}
+                fontSize={12}
+                textAnchor="middle"
+                fill="#111827"
+              >
+                {formatRemaining(climb.endDistance - section.startDistance)}
+              </text>
+            </g>
+          );
+        })}
+
+        <line
+          x1={MARGIN.left}
+          x2={MARGIN.left + chartWidth}
+          y1={baseline}
+          y2={baseline}
+          stroke="#111827"
+        />
+        <text
+          x={x(climb.endDistance)}
+          y={baseline + 18}
+          fontSize={12}
+          textAnchor="middle"
+          fill="#111827"
+        >
+          0
+        </text>
+        <text
+          x={MARGIN.left + chartWidth / 2}
+          y={baseline + 38}
+          fontSize={11}
+          textAnchor="middle"
+          fill="#6b7280"
+        >
+          km to the summit
+        </text>
+
+        <text
+          x={x(climb.endDistance)}
+          y={y(climb.peakElevation) - 12}
+          fontSize={15}
+          fontWeight="bold"
+          textAnchor="end"
+        >
+          ▲ {formatNumberEuropean(climb.peakElevation, 0)} m
+        </text>
+      </svg>
+    );
+  }
+);
+
+ClimbProfile.displayName = "ClimbProfile";
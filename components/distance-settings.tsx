@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Ruler } from "lucide-react";
+import { DISTANCE_MODELS, type DistanceModel } from "../lib/geodesy";
+import type { TrackBuildOptions } from "../lib/gpx-parser";
+import { formatNumberEuropean } from "../lib/format-number";
+import { RESAMPLE_STEPS } from "../lib/resampling";
+
+type DistanceOptions = Pick<
+  TrackBuildOptions,
+  "distanceModel" | "slopeDistance" | "officialDistance" | "resampleStep"
+>;
+
+interface DistanceSettingsProps {
+  options: DistanceOptions;
+  // Length of the profile as currently built, shown as the starting point for calibration
+  totalDistance: number;
+  // The file's own distances are used, so the earth model and slope distance have no effect
+  recordedDistances: boolean;
+  onChange: (options: DistanceOptions) => void;
+}
+
+export function DistanceSettings({
+  options,
+  totalDistance,
+  recordedDistances,
+  onChange,
+}: DistanceSettingsProps) {
+  // The official length as typed, applied when the field is left rather than on every keystroke. Between edits the
+  // field shows the option itself, so it empties when a new file or segment selection clears the option.
+  const [officialLength, setOfficialLength] = useState<string | null>(null);
+
+  const applyOfficialLength = () => {
+    if (officialLength === null) return;
+    setOfficialLength(null);
+
+    const value = Number.parseFloat(officialLength.replace(",", "."));
+    const officialDistance = value > 0 ? value : undefined;
+    if (officialDistance !== options.officialDistance) {
+      onChange({ officialDistance });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ruler className="h-5 w-5" />
+          Distance
+        </CardTitle>
+        <CardDescription>
+          Choose how distances are measured and how far apart profile points are
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Earth model</Label>
+            <Select
+              value={options.distanceModel ?? "haversine"}
+              disabled={recordedDistances}
+              onValueChange={(value) =>
+                onChange({ distanceModel: value as DistanceModel })
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DISTANCE_MODELS) as DistanceModel[]).map(
+                  (model) => (
+                    <SelectItem key={model} value={model}>
+                      {DISTANCE_MODELS[model]}
+                    </SelectItem>
+                  )
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Point spacing</Label>
+            <Select
+              value={options.resampleStep?.toString() ?? "recorded"}
+              onValueChange={(value) =>
+                onChange({
+                  resampleStep:
+                    value === "recorded" ? undefined : Number(value),
+                })
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="recorded">As recorded</SelectItem>
+                {RESAMPLE_STEPS.map((step) => (
+                  <SelectItem key={step} value={step.toString()}>
+                    Every {step} m
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="slope-distance">Include climbing in distance</Label>
+            <Switch
+              id="slope-distance"
+              checked={options.slopeDistance ?? false}
+              disabled={recordedDistances}
+              onCheckedChange={(checked) =>
+                onChange({ slopeDistance: checked })
+              }
+            />
+          </div>
+          {recordedDistances && (
+            <p className="text-xs text-gray-500">
+              This file records its own distances, which are used as they are
+              instead of being measured from the earth model and climbing.
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="official-distance">Official length (km)</Label>
+            <Input
+              id="official-distance"
+              inputMode="decimal"
+              value={
+                officialLength ?? options.officialDistance?.toString() ?? ""
+              }
+              onChange={(e) => setOfficialLength(e.target.value)}
+              onBlur={applyOfficialLength}
+              onKeyDown={(e) => e.key === "Enter" && applyOfficialLength()}
+              placeholder={formatNumberEuropean(totalDistance, 1)}
+            />
+            <p className="text-xs text-gray-500">
+              {options.officialDistance
+                ? "All distances are scaled to this length. Clear it to use the measured length."
+                : "Leave empty to use the measured length."}
+            </p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
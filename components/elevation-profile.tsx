@@ -9,9 +9,16 @@ import {
   useImperativeHandle,
   useState,
   useCallback,
+  useMemo,
 } from "react";
 import type { GPXData } from "../lib/gpx-parser";
 import type { ClimbSegment } from "../lib/climb-detector";
+import type { RideStop } from "../lib/ride-stats";
+import type { TrackAnomaly } from "../lib/gps-anomalies";
+import type { DescentSegment } from "../lib/descent-detector";
+import { SENSOR_CHANNELS, type SensorChannel } from "../lib/sensor-channels";
+import { smoothElevations } from "../lib/elevation-smoothing";
+import { downsampleForColumns } from "../lib/downsampling";
 import { formatNumberEuropean } from "../lib/format-number";
 
 interface LabelPoint {
@@ -35,8 +42,20 @@ interface ElevationProfileProps {
   startName: string;
   finishName: string;
   hideOutlines?: boolean;
+  stops?: RideStop[];
+  overlayChannel?: SensorChannel | null;
+  anomalies?: TrackAnomaly[];
+  descents?: DescentSegment[];
 }
 
+// Sensor readings fluctuate second to second, so the overlay is averaged over this many meters
+const OVERLAY_SMOOTHING_WINDOW = 200;
+
+// The canvas is drawn at twice its CSS size for sharp lines on high-density screens
+const PIXEL_RATIO = 2;
+
+type DistancePoint = { distance: number; elevation: number };
+
 export const ElevationProfile = forwardRef<
   HTMLCanvasElement,
   ElevationProfileProps
@@ -52,6 +71,10 @@ export const ElevationProfile = forwardRef<
       startName,
       finishName,
       hideOutlines = false,
+      stops = [],
+      overlayChannel = null,
+      anomalies = [],
+      descents = [],
     },
     ref
   ) => {
@@ -73,8 +96,43 @@ export const ElevationProfile = forwardRef<
       initialCustomY: 0,
     });
 
+    // Downsampled series by source array, reused across redraws (e.g. while dragging a label) until the width changes
+    const downsampledRef = useRef(
+      new WeakMap<
+        DistancePoint[],
+        { columns: number; points: DistancePoint[] }
+      >()
+    );
+
+    const downsample = useCallback(
+      <T extends DistancePoint>(points: T[], columns: number): T[] => {
+        const cached = downsampledRef.current.get(points);
+        if (cached?.columns === columns) return cached.points as T[];
+
+        const downsampled = downsampleForColumns(points, columns);
+        downsampledRef.current.set(points, { columns, points: downsampled });
+        return downsampled;
+      },
+      []
+    );
+
     useImperativeHandle(ref, () => canvasRef.current!, []);
 
+    // The channel value is carried as `elevation` so the series can share the smoothing and downsampling helpers
+    const overlaySeries = useMemo(() => {
+      if (!overlayChannel) return [];
+
+      const readings = gpxData.elevationPoints
+        .filter((point) => point[overlayChannel] !== undefined)
+        .map((point) => ({
+          distance: point.distance,
+          elevation: point[overlayChannel]!,
+        }));
+      return smoothElevations(readings, [
+        { algorithm: "moving-average", window: OVERLAY_SMOOTHING_WINDOW },
+      ]);
+    }, [gpxData, overlayChannel]);
+
     const handleMouseDown = useCallback(
       (event: React.MouseEvent<HTMLCanvasElement>) => {
         if (isAddingLabel) return;
@@ -226,11 +284,11 @@ export const ElevationProfile = forwardRef<
       const baseHeight = 400;
       const dynamicHeight = baseHeight + extraTopPadding + extraBottomPadding;
 
-      canvas.width = containerWidth * 2;
-      canvas.height = dynamicHeight * 2;
+      canvas.width = containerWidth * PIXEL_RATIO;
+      canvas.height = dynamicHeight * PIXEL_RATIO;
       canvas.style.width = `${containerWidth}px`;
       canvas.style.height = `${dynamicHeight}px`;
-      ctx.scale(2, 2);
+      ctx.scale(PIXEL_RATIO, PIXEL_RATIO);
 
       // Clear canvas
       ctx.clearRect(0, 0, containerWidth, dynamicHeight);
@@ -259,42 +317,41 @@ export const ElevationProfile = forwardRef<
       ctx.fillStyle = "#ffffff";
       ctx.fillRect(0, 0, containerWidth, dynamicHeight);
 
-      // Draw elevation profile area (yellow fill)
-      ctx.beginPath();
-      ctx.moveTo(xScale(0), yScale(minElevation));
+      // Tracks can have far more points than the chart has pixels, so only the points that shape each column are drawn
+      const columns = Math.ceil(chartWidth * PIXEL_RATIO);
+      const profilePoints = downsample(gpxData.elevationPoints, columns);
 
-      gpxData.elevationPoints.forEach((point, index) => {
-        if (index === 0) {
-          ctx.lineTo(xScale(point.distance), yScale(point.elevation));
-        } else {
-          ctx.lineTo(xScale(point.distance), yScale(point.elevation));
-        }
+      // Elevation profile area, used for the yellow fill and to clip the grid lines
+      const profileArea = new Path2D();
+      profileArea.moveTo(xScale(0), yScale(minElevation));
+      profilePoints.forEach((point) => {
+        profileArea.lineTo(xScale(point.distance), yScale(point.elevation));
       });
+      profileArea.lineTo(xScale(maxDistance), yScale(minElevation));
+      profileArea.closePath();
 
-      ctx.lineTo(xScale(maxDistance), yScale(minElevation));
-      ctx.closePath();
+      // Draw elevation profile area (yellow fill)
       ctx.fillStyle = "#FFED4E";
-      ctx.fill();
+      ctx.fill(profileArea);
 
       // Draw horizontal grid lines only inside the elevation profile
       ctx.save();
-
-      // Create clipping path matching the elevation profile
-      ctx.beginPath();
-      ctx.moveTo(xScale(0), yScale(minElevation));
-
-      gpxData.elevationPoints.forEach((point, index) => {
-        if (index === 0) {
-          ctx.lineTo(xScale(point.distance), yScale(point.elevation));
-        } else {
-          ctx.lineTo(xScale(point.distance), yScale(point.elevation));
-        }
+      ctx.clip(profileArea);
+
+      // Shade descents under the profile, darker where they are technical
+      descents.forEach((descent) => {
+        ctx.fillStyle = descent.technical
+          ? "rgba(37, 99, 235, 0.45)"
+          : "rgba(59, 130, 246, 0.2)";
+        const startX = xScale(descent.startDistance);
+        ctx.fillRect(
+          startX,
+          padding.top,
+          xScale(descent.endDistance) - startX,
+          chartHeight
+        );
       });
 
-      ctx.lineTo(xScale(maxDistance), yScale(minElevation));
-      ctx.closePath();
-      ctx.clip();
-
       // Draw grid lines
       ctx.strokeStyle = "#f5cf27";
       ctx.lineWidth = 1;
@@ -318,6 +375,14 @@ export const ElevationProfile = forwardRef<
 
       ctx.restore();
 
+      // Shade GPS anomalies across the chart, at least a couple of pixels wide so short spikes stay visible
+      ctx.fillStyle = "rgba(220, 38, 38, 0.2)";
+      anomalies.forEach((anomaly) => {
+        const startX = xScale(anomaly.startDistance);
+        const width = Math.max(xScale(anomaly.endDistance) - startX, 2);
+        ctx.fillRect(startX, padding.top, width, chartHeight);
+      });
+
       // Draw elevation profile line
       ctx.beginPath();
       ctx.moveTo(
@@ -325,7 +390,7 @@ export const ElevationProfile = forwardRef<
         yScale(gpxData.elevationPoints[0]?.elevation || minElevation)
       );
 
-      gpxData.elevationPoints.forEach((point) => {
+      profilePoints.forEach((point) => {
         ctx.lineTo(xScale(point.distance), yScale(point.elevation));
       });
 
@@ -333,6 +398,76 @@ export const ElevationProfile = forwardRef<
       ctx.lineWidth = 2;
       ctx.stroke();
 
+      // Draw the sensor overlay as a secondary line with its own axis on the right
+      if (overlayChannel && overlaySeries.length > 1) {
+        const channel = SENSOR_CHANNELS[overlayChannel];
+        // A loop rather than Math.min(...values), which exceeds the argument limit on long recordings
+        let lowest = Number.POSITIVE_INFINITY;
+        let highest = Number.NEGATIVE_INFINITY;
+        overlaySeries.forEach((point) => {
+          lowest = Math.min(lowest, point.elevation);
+          highest = Math.max(highest, point.elevation);
+        });
+        const minValue = Math.floor(lowest / 10) * 10;
+        const maxValue = Math.ceil(highest / 10) * 10;
+        const valueRange = Math.max(maxValue - minValue, 1);
+        const overlayY = (value: number) =>
+          padding.top +
+          chartHeight -
+          ((value - minValue) / valueRange) * chartHeight;
+
+        ctx.beginPath();
+        downsample(overlaySeries, columns).forEach((point, index) => {
+          const x = xScale(point.distance);
+          const y = overlayY(point.elevation);
+          if (index === 0) {
+            ctx.moveTo(x, y);
+          } else {
+            ctx.lineTo(x, y);
+          }
+        });
+        ctx.strokeStyle = channel.color;
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+
+        ctx.fillStyle = channel.color;
+        ctx.font = "bold 11px 'Helvetica Neue', Helvetica, sans-serif";
+        ctx.textAlign = "right";
+        const axisX = padding.left + chartWidth - 5;
+        for (let i = 0; i <= 4; i++) {
+          const value = minValue + (valueRange * i) / 4;
+          ctx.fillText(
+            formatNumberEuropean(value, 0),
+            axisX,
+            overlayY(value) + (i === 0 ? -4 : 12)
+          );
+        }
+        ctx.fillText(
+          `${channel.name} (${channel.unit})`,
+          axisX,
+          padding.top - 5
+        );
+      }
+
+      // Draw stop markers on the profile line
+      stops.forEach((stop) => {
+        const x = xScale(stop.distance);
+        const y = yScale(stop.elevation);
+
+        ctx.beginPath();
+        ctx.arc(x, y, 5, 0, 2 * Math.PI);
+        ctx.fillStyle = "#ffffff";
+        ctx.fill();
+        ctx.strokeStyle = "#333333";
+        ctx.lineWidth = 2;
+        ctx.stroke();
+
+        ctx.fillStyle = "#333333";
+        ctx.font = "bold 10px 'Helvetica Neue', Helvetica, sans-serif";
+        ctx.textAlign = "center";
+        ctx.fillText(`${Math.round(stop.duration / 60)}′`, x, y - 10);
+      });
+
       // Draw distance markers at bottom (black bar)
       ctx.fillStyle = "#333333";
       ctx.fillRect(
@@ -639,6 +774,12 @@ export const ElevationProfile = forwardRef<
       dragState,
       isAddingLabel,
       hideOutlines,
+      stops,
+      overlayChannel,
+      overlaySeries,
+      anomalies,
+      descents,
+      downsample,
     ]);
 
     const handleCanvasClick = useCallback(
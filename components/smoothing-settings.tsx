@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Waves } from "lucide-react";
+import {
+  SMOOTHING_ALGORITHMS,
+  type SmoothingAlgorithm,
+  type SmoothingStep,
+} from "../lib/elevation-smoothing";
+
+// The spike filter runs first over a short window, so it only removes isolated outliers
+const SPIKE_FILTER_WINDOW = 30;
+
+interface SmoothingSettingsProps {
+  smoothing: SmoothingStep[];
+  onChange: (smoothing: SmoothingStep[]) => void;
+}
+
+type MainAlgorithm = Exclude<SmoothingAlgorithm, "median"> | "none";
+
+export function SmoothingSettings({
+  smoothing,
+  onChange,
+}: SmoothingSettingsProps) {
+  const mainStep = smoothing.find((step) => step.algorithm !== "median");
+  const removeSpikes = smoothing.some((step) => step.algorithm === "median");
+  const algorithm: MainAlgorithm =
+    (mainStep?.algorithm as MainAlgorithm | undefined) ?? "none";
+
+  // The window is shown while dragging but only applied on release, since every change reprocesses the track
+  const [windowSize, setWindowSize] = useState(mainStep?.window ?? 100);
+
+  const buildSteps = (
+    nextAlgorithm: MainAlgorithm,
+    nextWindow: number,
+    nextRemoveSpikes: boolean
+  ): SmoothingStep[] => [
+    ...(nextRemoveSpikes
+      ? [{ algorithm: "median" as const, window: SPIKE_FILTER_WINDOW }]
+      : []),
+    ...(nextAlgorithm !== "none"
+      ? [{ algorithm: nextAlgorithm, window: nextWindow }]
+      : []),
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Waves className="h-5 w-5" />
+          Elevation Smoothing
+        </CardTitle>
+        <CardDescription>
+          Reduce GPS and barometer noise before gain and climbs are calculated
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Algorithm</Label>
+            <Select
+              value={algorithm}
+              onValueChange={(value) =>
+                onChange(
+                  buildSteps(value as MainAlgorithm, windowSize, removeSpikes)
+                )
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None</SelectItem>
+                <SelectItem value="moving-average">
+                  {SMOOTHING_ALGORITHMS["moving-average"]}
+                </SelectItem>
+                <SelectItem value="savitzky-golay">
+                  {SMOOTHING_ALGORITHMS["savitzky-golay"]}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {algorithm !== "none" && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Window</Label>
+                <span className="text-sm text-gray-600">{windowSize} m</span>
+              </div>
+              <Slider
+                min={10}
+                max={500}
+                step={10}
+                value={[windowSize]}
+                onValueChange={([value]) => setWindowSize(value)}
+                onValueCommit={([value]) =>
+                  onChange(buildSteps(algorithm, value, removeSpikes))
+                }
+              />
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="remove-spikes">{SMOOTHING_ALGORITHMS.median}</Label>
+            <Switch
+              id="remove-spikes"
+              checked={removeSpikes}
+              onCheckedChange={(checked) =>
+                onChange(buildSteps(algorithm, windowSize, checked))
+              }
+            />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { AlertTriangle } from "lucide-react";
+import type { TrackValidationReport } from "../lib/track-validation";
+import { formatNumberEuropean } from "../lib/format-number";
+
+interface TrackReportDialogProps {
+  // The report of a file that parsed with problems, or the error of one that could not be parsed
+  report: TrackValidationReport | null;
+  error: { message: string; line?: number; column?: number } | null;
+  onRepair: () => void;
+  onLoadAsIs: () => void;
+  onClose: () => void;
+}
+
+function pointCount(count: number) {
+  return `${formatNumberEuropean(count, 0)} point${count === 1 ? "" : "s"}`;
+}
+
+export function TrackReportDialog({
+  report,
+  error,
+  onRepair,
+  onLoadAsIs,
+  onClose,
+}: TrackReportDialogProps) {
+  const longestJump = report?.coordinateJumps.reduce(
+    (longest, jump) => Math.max(longest, jump.length),
+    0
+  );
+
+  const totalPoints = report?.totalPoints ?? 0;
+
+  return (
+    <Dialog
+      open={Boolean(report || error)}
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            {error
+              ? "Could not read track file"
+              : "Problems found in track file"}
+          </DialogTitle>
+          <DialogDescription>
+            {error ? (
+              "Please ensure it's a valid GPX, TCX, FIT, KML or GeoJSON file."
+            ) : (
+              <>{pointCount(totalPoints)} read. Some may distort the profile.</>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <div className="text-sm space-y-1">
+            <p className="font-medium">{error.message}</p>
+            {error.line !== undefined && (
+              <p className="text-gray-600">
+                Line {error.line}, column {error.column}
+              </p>
+            )}
+          </div>
+        )}
+
+        {report && (
+          <ul className="text-sm space-y-2 list-disc pl-5">
+            {report.missingCoordinates > 0 && (
+              <li>
+                {pointCount(report.missingCoordinates)} without coordinates were
+                left out
+              </li>
+            )}
+            {report.missingElevation > 0 && (
+              <li>
+                {pointCount(report.missingElevation)} without elevation — repair
+                fills them from loaded elevation tiles, or else from
+                neighbouring points
+              </li>
+            )}
+            {report.duplicateTimestamps > 0 && (
+              <li>
+                {pointCount(report.duplicateTimestamps)} repeating the previous
+                timestamp — repair removes them
+              </li>
+            )}
+            {report.outOfRange > 0 && (
+              <li>
+                {pointCount(report.outOfRange)} with latitude or longitude out
+                of range — repair removes them
+              </li>
+            )}
+            {report.coordinateJumps.length > 0 && (
+              <li>
+                {report.coordinateJumps.length} coordinate jump
+                {report.coordinateJumps.length === 1 ? "" : "s"}, up to{" "}
+                {formatNumberEuropean(longestJump ?? 0, 1)} km — repair splits
+                the track there so the jump is not counted as distance
+              </li>
+            )}
+          </ul>
+        )}
+
+        <DialogFooter>
+          {error ? (
+            <Button onClick={onClose}>Close</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onLoadAsIs}>
+                Load as is
+              </Button>
+              <Button onClick={onRepair}>Apply repairs</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ClimbSegment } from "../lib/climb-detector";
+import type { DescentSegment } from "../lib/descent-detector";
+import type { GPXData } from "../lib/gpx-parser";
+import type { HGTTile } from "../lib/srtm";
+import type { TrackValidationReport } from "../lib/track-validation";
+import type {
+  ClimbJobOptions,
+  TrackJob,
+  TrackJobOptions,
+  TrackStage,
+  TrackWorkerMessage,
+} from "../lib/track-worker";
+
+export interface TrackJobProgress {
+  job: TrackJob["type"];
+  stage: TrackStage;
+  // 0 to 100, as expected by the Progress component
+  value: number;
+}
+
+export interface TrackJobResult {
+  data: GPXData;
+  climbs: ClimbSegment[];
+  descents: DescentSegment[];
+  // Set for parsed files only
+  report: TrackValidationReport | null;
+}
+
+export interface ClimbJobResult {
+  climbs: ClimbSegment[];
+  descents: DescentSegment[];
+}
+
+// A failed job, with the position of the syntax error when the file is not well-formed XML
+export class TrackJobError extends Error {
+  constructor(
+    message: string,
+    readonly line?: number,
+    readonly column?: number
+  ) {
+    super(message);
+    this.name = "TrackJobError";
+  }
+}
+
+// The message a job finishes with
+type TrackJobOutcome = Extract<
+  TrackWorkerMessage,
+  { type: "result" | "climbs" }
+>;
+
+function trackResult(outcome: TrackJobOutcome | null): TrackJobResult | null {
+  if (outcome?.type !== "result") return null;
+  return {
+    data: outcome.data,
+    climbs: outcome.climbs,
+    descents: outcome.descents,
+    report: outcome.report,
+  };
+}
+
+function climbResult(outcome: TrackJobOutcome | null): ClimbJobResult | null {
+  if (outcome?.type !== "climbs") return null;
+  return { climbs: outcome.climbs, descents: outcome.descents };
+}
+
+export const TRACK_STAGES: Record<TrackStage, string> = {
+  reading: "Reading file",
+  processing: "Smoothing and measuring",
+  climbs: "Detecting climbs and descents",
+};
+
+/**
+ * Runs track parsing and processing in a Web Worker. Only one job runs at a
+ * time: starting another, or calling `cancel`, terminates the worker, and the
+ * superseded job resolves to null so callers can simply ignore it.
+ */
+export function useTrackWorker() {
+  const workerRef = useRef<Worker | null>(null);
+  const settleRef = useRef<((result: null) => void) | null>(null);
+  const [progress, setProgress] = useState<TrackJobProgress | null>(null);
+
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    settleRef.current?.(null);
+    settleRef.current = null;
+    setProgress(null);
+  }, []);
+
+  const run = useCallback(
+    (job: TrackJob, transfer: Transferable[] = []) => {
+      cancel();
+
+      return new Promise<TrackJobOutcome | null>((resolve, reject) => {
+        const worker = new Worker(
+          new URL("../lib/track-worker.ts", import.meta.url)
+        );
+        workerRef.current = worker;
+        settleRef.current = resolve;
+        setProgress({
+          job: job.type,
+          stage:
+            job.type === "parse"
+              ? "reading"
+              : job.type === "climbs"
+              ? "climbs"
+              : "processing",
+          value: 0,
+        });
+
+        const finish = () => {
+          worker.terminate();
+          workerRef.current = null;
+          settleRef.current = null;
+          setProgress(null);
+        };
+
+        worker.onmessage = (event: MessageEvent<TrackWorkerMessage>) => {
+          const message = event.data;
+          switch (message.type) {
+            case "progress":
+              setProgress({
+                job: job.type,
+                stage: message.stage,
+                value: Math.round(message.progress * 100),
+              });
+              break;
+            case "result":
+            case "climbs":
+              finish();
+              resolve(message);
+              break;
+            case "error":
+              finish();
+              reject(
+                new TrackJobError(message.message, message.line, message.column)
+              );
+              break;
+          }
+        };
+
+        worker.onerror = (event) => {
+          finish();
+          reject(new TrackJobError(event.message));
+        };
+
+        worker.postMessage(job, transfer);
+      });
+    },
+    [cancel]
+  );
+
+  // The file buffer is transferred rather than copied, so it cannot be used again after parsing
+  const parseFile = useCallback(
+    (buffer: ArrayBuffer, options: TrackJobOptions, tiles: HGTTile[]) =>
+      run({ type: "parse", buffer, options, tiles }, [buffer]).then(
+        trackResult
+      ),
+    [run]
+  );
+
+  const rebuild = useCallback(
+    (
+      data: GPXData,
+      options: TrackJobOptions,
+      tiles: HGTTile[],
+      type: "rebuild" | "repair" = "rebuild"
+    ) =>
+      run({
+        type,
+        source: {
+          segments: data.segments,
+          rawWaypoints: data.rawWaypoints,
+          selectedSegments: data.selectedSegments,
+        },
+        options,
+        tiles,
+      }).then(trackResult),
+    [run]
+  );
+
+  // Only the profile is sent, so changing climb settings does not rebuild the track
+  const detectClimbs = useCallback(
+    (data: GPXData, options: ClimbJobOptions) =>
+      run({
+        type: "climbs",
+        profile: {
+          elevationPoints: data.elevationPoints,
+          totalDistance: data.totalDistance,
+        },
+        options,
+      }).then(climbResult),
+    [run]
+  );
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  return { progress, parseFile, rebuild, detectClimbs, cancel };
+}
@@ -0,0 +1,56 @@
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import { decodeFitRecords, parseFIT } from "../fit-parser"
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH = Date.UTC(1989, 11, 31)
+
+function fixture(name: string): ArrayBuffer {
+  const file = readFileSync(join(__dirname, "fixtures", name))
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength)
+}
+
+describe("decodeFitRecords", () => {
+  // One record with a full timestamp whose low 5 bits are 30, then three records with compressed timestamp headers
+  // carrying offsets 31, 1 and 2, the last two of which roll over into the next 32 seconds
+  it("reads compressed timestamp headers relative to the last full timestamp", () => {
+    const records = decodeFitRecords(fixture("compressed-timestamps.fit"))
+
+    expect(records.map((record) => record.timestamp)).toEqual([1000000030, 1000000031, 1000000033, 1000000034])
+    expect(records.map((record) => record.altitude)).toEqual([1000, 1010, 1020, 1030])
+    expect(records[3].latitude).toBeCloseTo(45.003, 6)
+    expect(records[3].distance).toBe(333)
+  })
+
+  // A developer data id and field description, then records carrying a 2-byte and a 4-byte developer field
+  it("skips developer fields without losing track of the following fields and messages", () => {
+    const records = decodeFitRecords(fixture("developer-fields.fit"))
+
+    expect(records).toHaveLength(3)
+    expect(records.map((record) => record.timestamp)).toEqual([1000000030, 1000000031, 1000000032])
+    expect(records.map((record) => record.altitude)).toEqual([500, 505, 510])
+    records.forEach((record, index) => {
+      expect(record.latitude).toBeCloseTo(45 + index * 0.001, 6)
+      expect(record.longitude).toBeCloseTo(6, 6)
+    })
+  })
+})
+
+describe("parseFIT", () => {
+  it("builds the profile from the recorded distances and timestamps", () => {
+    const data = parseFIT(fixture("compressed-timestamps.fit"))
+
+    expect(data.elevationPoints).toHaveLength(4)
+    expect(data.totalDistance).toBeCloseTo(0.333, 6)
+    expect(data.elevationPoints[2].time).toBe(FIT_EPOCH + 1000000033 * 1000)
+    expect(data.maxElevation).toBe(1030)
+  })
+
+  it("reads a file with developer fields like any other", () => {
+    const data = parseFIT(fixture("developer-fields.fit"))
+
+    expect(data.elevationPoints.map((point) => point.distance)).toEqual([0, 0.111, 0.222])
+    expect(data.minElevation).toBe(500)
+  })
+})
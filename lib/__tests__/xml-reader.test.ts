@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest"
+import { createXMLReader, readXML, XMLSyntaxError, type XMLSource } from "../xml-reader"
+
+// Records the handler calls as a flat list, so two reads of the same document can be compared
+function events(write: (reader: ReturnType<typeof createXMLReader>) => void): string[] {
+  const log: string[] = []
+  const reader = createXMLReader({
+    openTag: (name, attributes) => log.push(`open ${name} ${JSON.stringify(attributes)}`),
+    closeTag: (name) => log.push(`close ${name}`),
+    text: (text) => log.push(`text ${JSON.stringify(text)}`),
+  })
+  write(reader)
+  reader.close()
+  return log
+}
+
+function syntaxError(source: XMLSource): XMLSyntaxError {
+  try {
+    readXML(source, {})
+  } catch (error) {
+    if (error instanceof XMLSyntaxError) return error
+    throw error
+  }
+  throw new Error("Expected an XMLSyntaxError")
+}
+
+const DOCUMENT = [
+  `<?xml version="1.0" encoding="UTF-8"?>`,
+  `<!-- exported -->`,
+  `<gpx version="1.1" creator='Head &amp; Unit'>`,
+  `  <wpt lat="45.1" lon="6.2"><name>Col &lt;du&gt; Galibier &#233;</name></wpt>`,
+  `  <trk><desc><![CDATA[<b>Stage</b> & more]]></desc><trkseg/></trk>`,
+  `</gpx>`,
+].join("\n")
+
+describe("createXMLReader", () => {
+  it("reads the same events however the text is split between writes", () => {
+    const whole = events((reader) => reader.write(DOCUMENT))
+
+    expect(whole).toContain(`open gpx {"version":"1.1","creator":"Head & Unit"}`)
+    expect(whole).toContain(`text "Col <du> Galibier é"`)
+    expect(whole).toContain(`text "<b>Stage</b> & more"`)
+    expect(whole).toContain(`close trkseg`)
+
+    for (let split = 1; split < DOCUMENT.length; split++) {
+      const parts = events((reader) => {
+        reader.write(DOCUMENT.slice(0, split))
+        reader.write(DOCUMENT.slice(split))
+      })
+      expect(parts, `split at ${split}`).toEqual(whole)
+    }
+  })
+
+  it("reads one character per write", () => {
+    const whole = events((reader) => reader.write(DOCUMENT))
+    const characters = events((reader) => [...DOCUMENT].forEach((char) => reader.write(char)))
+
+    expect(characters).toEqual(whole)
+  })
+
+  it("does not end a tag at a > inside a quoted attribute value", () => {
+    const log = events((reader) => {
+      reader.write(`<route name="A > B" note='x>y`)
+      reader.write(`'><leg to="C>"/></route>`)
+    })
+
+    expect(log).toEqual([
+      `open route {"name":"A > B","note":"x>y"}`,
+      `open leg {"to":"C>"}`,
+      `close leg`,
+      `close route`,
+    ])
+  })
+
+  it("skips a DOCTYPE with an internal subset", () => {
+    const doctype = `<!DOCTYPE gpx [\n  <!ELEMENT gpx (trk)>\n  <!ENTITY course "Stage 1">\n]>`
+    const document = `${doctype}\n<gpx><trk/></gpx>`
+    const expected = [`open gpx {}`, `open trk {}`, `close trk`, `close gpx`]
+
+    expect(events((reader) => reader.write(document))).toEqual(expected)
+    for (let split = 1; split < doctype.length; split++) {
+      const log = events((reader) => {
+        reader.write(document.slice(0, split))
+        reader.write(document.slice(split))
+      })
+      expect(log, `split at ${split}`).toEqual(expected)
+    }
+  })
+})
+
+describe("readXML", () => {
+  it("reports the line and column of a mismatched closing tag", () => {
+    const error = syntaxError(`<gpx>\n  <trk>\n    <trkseg></trk>\n</gpx>`)
+
+    expect(error.reason).toBe("Expected </trkseg> but found </trk>")
+    expect(error.line).toBe(3)
+    expect(error.column).toBe(13)
+  })
+
+  it("counts columns in characters for multi-byte text read as bytes", () => {
+    const error = syntaxError(new TextEncoder().encode(`<gpx>\n<name>Été</nom>\n</gpx>`).buffer as ArrayBuffer)
+
+    expect(error.line).toBe(2)
+    expect(error.column).toBe(10)
+  })
+
+  it("rejects text and a second element outside the root", () => {
+    expect(syntaxError(`<gpx/>\nstray`).reason).toBe("Text outside the root element")
+    expect(syntaxError(`<gpx/><gpx/>`).reason).toBe("Second root element <gpx>")
+    expect(syntaxError(`<gpx><trk>`).reason).toBe("Missing </trk> at end of file")
+  })
+})
@@ -1,3 +1,20 @@
+import {
+  categorizeClimb,
+  DEFAULT_CLIMB_SCORING,
+  scoreClimb,
+  type ClimbCategory,
+  type ClimbScoring,
+} from "./climb-scoring";
+
+// A stretch of a climb, counted back from the summit, with its average gradient in percent
+export interface ClimbSection {
+  startDistance: number;
+  endDistance: number;
+  startElevation: number;
+  endElevation: number;
+  gradient: number;
+}
+
 export interface ClimbSegment {
   startDistance: number;
   endDistance: number;
@@ -6,22 +23,113 @@ export interface ClimbSegment {
   length: number;
   elevationGain: number;
   averageGradient: number;
+  // Gradient per kilometer, or per 500 m on short climbs, ending at the summit
+  sections: ClimbSection[];
+  // Steepest stretch of MAX_GRADIENT_RUN, and the distance at which it starts
+  maxGradient: number;
+  maxGradientDistance: number;
+  // Score by the chosen strategy, which the category is derived from, and by every strategy for comparison
   score: number;
-  category: "HC" | "1" | "2" | "3" | "4" | null;
+  scores: Record<ClimbScoring, number>;
+  category: ClimbCategory | null;
   peakDistance: number;
   peakElevation: number;
   name: string;
+  // Set when categorised for a race event: whether the stage finishes on the summit, and the prize for the
+  // highest point of the race if this is it
+  summitFinish?: boolean;
+  highestPoint?: string;
+}
+
+export interface ClimbDetectionOptions {
+  // Minimum climb length in kilometers
+  minClimbLength: number;
+  // Minimum elevation gain in meters
+  minElevationGain: number;
+  // Gradient in percent above which a climb starts, and which its average must reach
+  gradientThreshold: number;
+  // Longest false flat or dip, in kilometers, across which consecutive climbs are joined into one
+  mergeDistance: number;
+  // Deepest dip, in meters below the end of the first climb, across which they are joined
+  maxMergeDescent: number;
 }
 
+type ProfilePoint = { distance: number; elevation: number };
+
+// A climb as measured while candidates are found and joined, before the final one is broken down into sections
+type ClimbSummary = Omit<
+  ClimbSegment,
+  "sections" | "maxGradient" | "maxGradientDistance"
+>;
+
+// Bumps smaller than this (m) do not stop the search for the foot or summit of a climb
+const REFINEMENT_TOLERANCE = 5;
+
+// Ground gentler than this (percent) before the foot or after the summit is approach or plateau, not climb
+const REFINEMENT_MIN_GRADIENT = 1;
+
+// The search gives up after this many kilometers without finding a lower foot or higher summit
+const REFINEMENT_MAX_SEARCH = 1;
+
+// Climbs are broken down per kilometer, or per 500 m when shorter than SHORT_CLIMB_LENGTH (km)
+const SECTION_LENGTH = 1;
+const SHORT_SECTION_LENGTH = 0.5;
+const SHORT_CLIMB_LENGTH = 5;
+
+// The maximum gradient is measured over this distance (km), as ramps are quoted in previews
+const MAX_GRADIENT_RUN = 0.1;
+
+export type ClimbDetectionPreset = "default" | "classics" | "mountains";
+
+export const CLIMB_DETECTION_PRESETS: Record<
+  ClimbDetectionPreset,
+  { name: string; options: ClimbDetectionOptions }
+> = {
+  default: {
+    name: "Default",
+    options: {
+      minClimbLength: 0.5,
+      minElevationGain: 30,
+      gradientThreshold: 3,
+      mergeDistance: 2,
+      maxMergeDescent: 20,
+    },
+  },
+  // Short, steep bergs close together, each of which matters in the race
+  classics: {
+    name: "Classics",
+    options: {
+      minClimbLength: 0.3,
+      minElevationGain: 20,
+      gradientThreshold: 4,
+      mergeDistance: 0.5,
+      maxMergeDescent: 10,
+    },
+  },
+  // Long cols, where false flats and short dips should not split a climb
+  mountains: {
+    name: "Mountain stage",
+    options: {
+      minClimbLength: 2,
+      minElevationGain: 100,
+      gradientThreshold: 3,
+      mergeDistance: 3,
+      maxMergeDescent: 50,
+    },
+  },
+};
+
+export const DEFAULT_CLIMB_DETECTION = CLIMB_DETECTION_PRESETS.default.options;
+
 export function detectClimbs(
-  elevationPoints: Array<{ distance: number; elevation: number }>
+  elevationPoints: Array<{ distance: number; elevation: number }>,
+  options: ClimbDetectionOptions = DEFAULT_CLIMB_DETECTION,
+  scoring: ClimbScoring = DEFAULT_CLIMB_SCORING
 ): ClimbSegment[] {
   if (elevationPoints.length < 10) return [];
 
-  const climbs: ClimbSegment[] = [];
-  const minClimbLength = 0.5; // Minimum 500m climb
-  const minElevationGain = 30; // Minimum 30m elevation gain
-  const gradientThreshold = 3; // Minimum 3% average gradient to be considered a climb
+  const climbs: ClimbSummary[] = [];
+  const { minClimbLength, minElevationGain, gradientThreshold } = options;
 
   let climbStart: number | null = null;
   let climbStartElevation: number | null = null;
@@ -66,41 +174,16 @@ export function detectClimbs(
           const averageGradient = (elevationGain / (climbLength * 1000)) * 100;
 
           if (averageGradient >= gradientThreshold) {
-            // Find the actual peak (highest point) in this climb segment
-            let peakDistance = climbEnd;
-            let peakElevation = climbEndElevation;
-
-            for (let j = i; j < Math.min(i + 20, smoothedPoints.length); j++) {
-              if (smoothedPoints[j].elevation > peakElevation) {
-                peakElevation = smoothedPoints[j].elevation;
-                peakDistance = smoothedPoints[j].distance;
-              } else if (smoothedPoints[j].elevation < peakElevation - 10) {
-                // Stop looking if elevation drops significantly
-                break;
-              }
-            }
-
-            const score = climbLength * (averageGradient * averageGradient);
-            const category = categorizeClimb(score);
-
-            climbs.push({
-              startDistance: climbStart,
-              endDistance: climbEnd,
-              startElevation: climbStartElevation,
-              endElevation: climbEndElevation,
-              length: climbLength,
-              elevationGain,
-              averageGradient,
-              score,
-              category,
-              peakDistance,
-              peakElevation,
-              name: generateClimbName(
-                peakElevation,
-                climbLength,
-                averageGradient
-              ),
-            });
+            // The summit is found when the climb is refined
+            const end = { distance: climbEnd, elevation: climbEndElevation };
+            climbs.push(
+              summarizeClimb(
+                { distance: climbStart, elevation: climbStartElevation },
+                end,
+                end,
+                scoring
+              )
+            );
           }
         }
       }
@@ -113,8 +196,135 @@ export function detectClimbs(
     currentElevation = point.elevation;
   }
 
-  // Filter out climbs that are too close to each other (merge nearby climbs)
-  return mergeNearbyClimbs(climbs);
+  // Join climbs interrupted by a false flat or a short dip, then move their ends to the foot and summit
+  return refineClimbs(
+    mergeNearbyClimbs(climbs, smoothedPoints, options, scoring),
+    smoothedPoints,
+    scoring
+  );
+}
+
+// Measures a climb from its start to its end, with the highest point reached on it
+function summarizeClimb(
+  start: ProfilePoint,
+  end: ProfilePoint,
+  peak: ProfilePoint,
+  scoring: ClimbScoring
+): ClimbSummary {
+  const length = end.distance - start.distance;
+  const elevationGain = end.elevation - start.elevation;
+  const averageGradient =
+    length > 0 ? (elevationGain / (length * 1000)) * 100 : 0;
+  const scores = scoreClimb({
+    length,
+    elevationGain,
+    averageGradient,
+    peakElevation: peak.elevation,
+  });
+
+  return {
+    startDistance: start.distance,
+    endDistance: end.distance,
+    startElevation: start.elevation,
+    endElevation: end.elevation,
+    length,
+    elevationGain,
+    averageGradient,
+    score: scores[scoring],
+    scores,
+    category: categorizeClimb(scores[scoring], scoring),
+    peakDistance: peak.distance,
+    peakElevation: peak.elevation,
+    name: generateClimbName(peak.elevation, length, averageGradient),
+  };
+}
+
+function gradientBetween(start: ProfilePoint, end: ProfilePoint): number {
+  const run = (end.distance - start.distance) * 1000;
+  return run > 0 ? ((end.elevation - start.elevation) / run) * 100 : 0;
+}
+
+// Elevation at a distance, interpolated between the points either side of it
+function pointAtDistance(
+  points: ProfilePoint[],
+  distance: number
+): ProfilePoint {
+  const index = indexAtDistance(points, distance);
+  const after = points[index];
+  const before = points[Math.max(0, index - 1)];
+  const span = after.distance - before.distance;
+  const ratio =
+    span > 0
+      ? Math.min(1, Math.max(0, (distance - before.distance) / span))
+      : 0;
+  return {
+    distance,
+    elevation: before.elevation + (after.elevation - before.elevation) * ratio,
+  };
+}
+
+/**
+ * Splits a climb into sections counted back from the summit, as the kilometer
+ * markers on the road count down to it, so only the first section at the
+ * foot may be shorter than the rest.
+ */
+function climbSections(
+  points: ProfilePoint[],
+  start: ProfilePoint,
+  end: ProfilePoint
+): ClimbSection[] {
+  const length = end.distance - start.distance;
+  const sectionLength =
+    length < SHORT_CLIMB_LENGTH ? SHORT_SECTION_LENGTH : SECTION_LENGTH;
+
+  const sections: ClimbSection[] = [];
+  let sectionEnd = end;
+  // A sliver of less than a tenth of a section is folded into the one above it
+  while (sectionEnd.distance - start.distance > sectionLength * 0.1) {
+    const sectionStart =
+      sectionEnd.distance - start.distance > sectionLength * 1.1
+        ? pointAtDistance(points, sectionEnd.distance - sectionLength)
+        : start;
+    sections.unshift({
+      startDistance: sectionStart.distance,
+      endDistance: sectionEnd.distance,
+      startElevation: sectionStart.elevation,
+      endElevation: sectionEnd.elevation,
+      gradient: gradientBetween(sectionStart, sectionEnd),
+    });
+    sectionEnd = sectionStart;
+  }
+  return sections;
+}
+
+// The steepest stretch of at least MAX_GRADIENT_RUN between two distances
+function steepestRun(
+  points: ProfilePoint[],
+  startDistance: number,
+  endDistance: number
+): { gradient: number; distance: number } {
+  const steepest = { gradient: 0, distance: startDistance };
+  const last = indexAtDistance(points, endDistance);
+  let runStart = indexAtDistance(points, startDistance);
+
+  for (let i = runStart + 1; i <= last; i++) {
+    while (
+      runStart + 1 < i &&
+      points[i].distance - points[runStart + 1].distance >= MAX_GRADIENT_RUN
+    ) {
+      runStart++;
+    }
+    if (points[i].distance - points[runStart].distance < MAX_GRADIENT_RUN) {
+      continue;
+    }
+
+    const gradient = gradientBetween(points[runStart], points[i]);
+    if (gradient > steepest.gradient) {
+      steepest.gradient = gradient;
+      steepest.distance = points[runStart].distance;
+    }
+  }
+  return steepest;
 }
 
 function smoothElevationForClimbDetection(
@@ -139,15 +349,6 @@ function smoothElevationForClimbDetection(
   return smoothed;
 }
 
-function categorizeClimb(score: number): "HC" | "1" | "2" | "3" | "4" | null {
-  if (score >= 600) return "HC";
-  if (score >= 300) return "1";
-  if (score >= 150) return "2";
-  if (score >= 75) return "3";
-  if (score > 0) return "4";
-  return null;
-}
-
 function generateClimbName(
   elevation: number,
   length: number,
@@ -177,35 +378,159 @@ function generateClimbName(
   return `${nameType} ${elevationSuffix}m`;
 }
 
-function mergeNearbyClimbs(climbs: ClimbSegment[]): ClimbSegment[] {
-  if (climbs.length <= 1) return climbs;
+// Index of the first point at or after a distance
+function indexAtDistance(points: ProfilePoint[], distance: number): number {
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (points[mid].distance < distance) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
 
-  const merged: ClimbSegment[] = [];
-  const minDistanceBetweenClimbs = 2; // 2km minimum between climbs
+/**
+ * Walks from a point in one direction to the lowest (`sign` -1) or highest
+ * (`sign` 1) point reached before the road turns back by more than
+ * REFINEMENT_TOLERANCE. A new extreme only counts if it is reached at
+ * REFINEMENT_MIN_GRADIENT or steeper, so a long gentle approach or plateau is
+ * not added to the climb. The walk stops at `limit`, the distance of the
+ * neighbouring climb.
+ */
+function findExtreme(
+  points: ProfilePoint[],
+  from: number,
+  step: 1 | -1,
+  sign: 1 | -1,
+  limit: number
+): ProfilePoint {
+  let extreme = points[from];
+  for (
+    let i = from + step;
+    i >= 0 && i < points.length && (points[i].distance - limit) * step <= 0;
+    i += step
+  ) {
+    const point = points[i];
+    const rise = (point.elevation - extreme.elevation) * sign;
+    const run = Math.abs(point.distance - extreme.distance) * 1000;
 
-  for (let i = 0; i < climbs.length; i++) {
-    const currentClimb = climbs[i];
-    let shouldMerge = false;
+    if (rise < -REFINEMENT_TOLERANCE) break;
+    if (rise > 0 && (rise / run) * 100 >= REFINEMENT_MIN_GRADIENT) {
+      extreme = point;
+    } else if (run > REFINEMENT_MAX_SEARCH * 1000) {
+      break;
+    }
+  }
+  return extreme;
+}
 
-    // Check if this climb is too close to the last merged climb
-    if (merged.length > 0) {
-      const lastClimb = merged[merged.length - 1];
-      const distanceBetween =
-        currentClimb.startDistance - lastClimb.endDistance;
+/**
+ * Moves the start of each climb back to the valley floor and its end forward
+ * to the summit, as race organisers measure them, rather than where the
+ * gradient first and last crossed the threshold. Neither end moves past the
+ * neighbouring climbs. Only these final climbs are broken down into sections.
+ */
+function refineClimbs(
+  climbs: ClimbSummary[],
+  points: ProfilePoint[],
+  scoring: ClimbScoring
+): ClimbSegment[] {
+  const refined: ClimbSegment[] = [];
 
-      if (distanceBetween < minDistanceBetweenClimbs) {
-        // Merge with the previous climb if it's better, or skip this one
-        if (currentClimb.score > lastClimb.score) {
-          merged[merged.length - 1] = currentClimb;
-        }
-        shouldMerge = true;
-      }
-    }
+  climbs.forEach((climb, index) => {
+    const previousEnd =
+      refined[refined.length - 1]?.endDistance ?? points[0].distance;
+    const nextStart =
+      climbs[index + 1]?.startDistance ?? points[points.length - 1].distance;
 
-    if (!shouldMerge) {
-      merged.push(currentClimb);
-    }
+    const foot = findExtreme(
+      points,
+      indexAtDistance(points, climb.startDistance),
+      -1,
+      -1,
+      previousEnd
+    );
+    const summit = findExtreme(
+      points,
+      indexAtDistance(points, climb.endDistance),
+      1,
+      1,
+      nextStart
+    );
+
+    const steepest = steepestRun(points, foot.distance, summit.distance);
+    refined.push({
+      ...summarizeClimb(foot, summit, summit, scoring),
+      sections: climbSections(points, foot, summit),
+      maxGradient: steepest.gradient,
+      maxGradientDistance: steepest.distance,
+    });
+  });
+
+  return refined;
+}
+
+// Lowest elevation on the profile between two distances
+function lowestElevationBetween(
+  points: ProfilePoint[],
+  from: number,
+  to: number
+): number {
+  let lowest = Number.POSITIVE_INFINITY;
+  for (const point of points) {
+    if (point.distance > to) break;
+    if (point.distance >= from) lowest = Math.min(lowest, point.elevation);
   }
+  return lowest;
+}
+
+/**
+ * Joins each climb to the one before it when they are separated by no more
+ * than `mergeDistance` of false flat or dip, the dip goes no deeper than
+ * `maxMergeDescent` below the end of the first, and the road climbs on higher
+ * afterwards. The joined climb is measured again from the first start to the
+ * second end, so a col with a flat middle section is reported whole.
+ */
+function mergeNearbyClimbs(
+  climbs: ClimbSummary[],
+  points: ProfilePoint[],
+  { mergeDistance, maxMergeDescent }: ClimbDetectionOptions,
+  scoring: ClimbScoring
+): ClimbSummary[] {
+  const merged: ClimbSummary[] = [];
+
+  climbs.forEach((climb) => {
+    const previous = merged[merged.length - 1];
+    const joinable =
+      previous &&
+      climb.startDistance - previous.endDistance <= mergeDistance &&
+      climb.endElevation > previous.endElevation &&
+      previous.endElevation -
+        lowestElevationBetween(
+          points,
+          previous.endDistance,
+          climb.startDistance
+        ) <=
+        maxMergeDescent;
+
+    if (!joinable) {
+      merged.push(climb);
+      return;
+    }
+
+    const peak =
+      climb.peakElevation >= previous.peakElevation ? climb : previous;
+    merged[merged.length - 1] = summarizeClimb(
+      { distance: previous.startDistance, elevation: previous.startElevation },
+      { distance: climb.endDistance, elevation: climb.endElevation },
+      { distance: peak.peakDistance, elevation: peak.peakElevation },
+      scoring
+    );
+  });
 
   return merged;
 }
@@ -0,0 +1,90 @@
+export type ClimbCategory = "HC" | "1" | "2" | "3" | "4";
+
+export type ClimbScoring = "default" | "fiets" | "climbbybike" | "strava";
+
+// What a climb is scored on
+export interface ClimbMeasurements {
+  // Kilometers
+  length: number;
+  // Meters from the foot to the summit
+  elevationGain: number;
+  // Percent
+  averageGradient: number;
+  // Altitude of the summit in meters
+  peakElevation: number;
+}
+
+interface ClimbScoringStrategy {
+  name: string;
+  // Decimals the score is shown with
+  decimals: number;
+  score: (climb: ClimbMeasurements) => number;
+  // Lowest score for each category, hardest first
+  thresholds: Record<ClimbCategory, number>;
+}
+
+// Summits above 1000 m are harder than their gradient alone suggests, so both indexes add a bonus for altitude
+const ALTITUDE_BONUS_BASE = 1000;
+
+export const CLIMB_SCORINGS: Record<ClimbScoring, ClimbScoringStrategy> = {
+  default: {
+    name: "Length × gradient²",
+    decimals: 0,
+    score: ({ length, averageGradient }) =>
+      length * (averageGradient * averageGradient),
+    // Any climb that was detected at all is at least category 4
+    thresholds: { HC: 600, "1": 300, "2": 150, "3": 75, "4": Number.MIN_VALUE },
+  },
+  // Index of the Dutch cycling magazine Fiets: H² / (D × 10), plus (T − 1000) / 1000 for high summits
+  fiets: {
+    name: "FIETS index",
+    decimals: 1,
+    score: ({ length, elevationGain, peakElevation }) =>
+      (elevationGain * elevationGain) / (length * 1000 * 10) +
+      Math.max(0, (peakElevation - ALTITUDE_BONUS_BASE) / 1000),
+    thresholds: { HC: 6.5, "1": 4.5, "2": 3, "3": 1.5, "4": 0.5 },
+  },
+  // climbbybike.com: 2 × gradient + H² / D + D / 1000, plus (T − 1000) / 100 for high summits
+  climbbybike: {
+    name: "Climbbybike index",
+    decimals: 0,
+    score: ({ length, elevationGain, averageGradient, peakElevation }) =>
+      2 * averageGradient +
+      (elevationGain * elevationGain) / (length * 1000) +
+      length +
+      Math.max(0, (peakElevation - ALTITUDE_BONUS_BASE) / 100),
+    thresholds: { HC: 100, "1": 60, "2": 35, "3": 20, "4": 10 },
+  },
+  // Strava's segment categories: length in meters × average gradient in percent
+  strava: {
+    name: "Strava",
+    decimals: 0,
+    score: ({ length, averageGradient }) => length * 1000 * averageGradient,
+    thresholds: { HC: 80000, "1": 64000, "2": 32000, "3": 16000, "4": 8000 },
+  },
+};
+
+export const DEFAULT_CLIMB_SCORING: ClimbScoring = "default";
+
+export const CLIMB_CATEGORIES: ClimbCategory[] = ["HC", "1", "2", "3", "4"];
+
+export function scoreClimb(
+  climb: ClimbMeasurements
+): Record<ClimbScoring, number> {
+  return {
+    default: CLIMB_SCORINGS.default.score(climb),
+    fiets: CLIMB_SCORINGS.fiets.score(climb),
+    climbbybike: CLIMB_SCORINGS.climbbybike.score(climb),
+    strava: CLIMB_SCORINGS.strava.score(climb),
+  };
+}
+
+export function categorizeClimb(
+  score: number,
+  scoring: ClimbScoring = DEFAULT_CLIMB_SCORING
+): ClimbCategory | null {
+  const { thresholds } = CLIMB_SCORINGS[scoring];
+  return (
+    CLIMB_CATEGORIES.find((category) => score >= thresholds[category]) ?? null
+  );
+}
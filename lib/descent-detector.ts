@@ -0,0 +1,113 @@
+import type { ElevationPoint } from "./gpx-parser";
+import {
+  DEFAULT_CLIMB_DETECTION,
+  detectClimbs,
+  type ClimbDetectionOptions,
+} from "./climb-detector";
+
+export interface DescentSegment {
+  startDistance: number;
+  endDistance: number;
+  startElevation: number;
+  endElevation: number;
+  length: number;
+  // Meters lost from the top to the bottom
+  drop: number;
+  // Downhill gradients in percent, positive however steep
+  averageGradient: number;
+  maxGradient: number;
+  // Distance at which the steepest stretch reaches its bottom
+  maxGradientDistance: number;
+  // Degrees the road turns per kilometer, and whether that makes it a technical descent
+  curvature: number;
+  technical: boolean;
+}
+
+// Headings are taken between points at least this far apart (km), so GPS jitter is not counted as bends
+const CURVATURE_STEP = 0.05;
+
+// Turning per kilometer above which a descent is technical: roughly a hairpin every kilometer with bends between
+const TECHNICAL_CURVATURE = 250;
+
+function bearing(from: ElevationPoint, to: ElevationPoint): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const lat1 = toRadians(from.latitude);
+  const lat2 = toRadians(to.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const y = Math.sin(dLon) * Math.cos(lat2);
+  const x =
+    Math.cos(lat1) * Math.sin(lat2) -
+    Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLon);
+  return (Math.atan2(y, x) * 180) / Math.PI;
+}
+
+// Total turning in degrees per kilometer between two distances along the track
+function curvatureBetween(
+  points: ElevationPoint[],
+  startDistance: number,
+  endDistance: number
+): number {
+  const vertices: ElevationPoint[] = [];
+  for (const point of points) {
+    if (point.distance > endDistance) break;
+    if (point.distance < startDistance) continue;
+    const last = vertices[vertices.length - 1];
+    if (!last || point.distance - last.distance >= CURVATURE_STEP) {
+      vertices.push(point);
+    }
+  }
+
+  let turning = 0;
+  for (let i = 2; i < vertices.length; i++) {
+    const change =
+      bearing(vertices[i - 1], vertices[i]) -
+      bearing(vertices[i - 2], vertices[i - 1]);
+    // Wrap to -180..180, so turning through north is not counted as a full circle
+    turning += Math.abs(((change + 540) % 360) - 180);
+  }
+
+  const length = endDistance - startDistance;
+  return length > 0 ? turning / length : 0;
+}
+
+/**
+ * Finds descents by detecting climbs on the profile ridden backwards, so
+ * descents are held to the same thresholds as climbs, then measures how much
+ * the road turns on each to flag technical descents.
+ */
+export function detectDescents(
+  points: ElevationPoint[],
+  options: ClimbDetectionOptions = DEFAULT_CLIMB_DETECTION
+): DescentSegment[] {
+  if (points.length === 0) return [];
+
+  const finish = points[points.length - 1].distance;
+  const reversed = points
+    .map((point) => ({
+      distance: finish - point.distance,
+      elevation: point.elevation,
+    }))
+    .reverse();
+
+  return detectClimbs(reversed, options)
+    .reverse()
+    .map((climb) => {
+      const startDistance = finish - climb.endDistance;
+      const endDistance = finish - climb.startDistance;
+      const curvature = curvatureBetween(points, startDistance, endDistance);
+      return {
+        startDistance,
+        endDistance,
+        startElevation: climb.endElevation,
+        endElevation: climb.startElevation,
+        length: climb.length,
+        drop: climb.elevationGain,
+        averageGradient: climb.averageGradient,
+        maxGradient: climb.maxGradient,
+        // Where the steepest stretch starts when ridden uphill is its bottom
+        maxGradientDistance: finish - climb.maxGradientDistance,
+        curvature,
+        technical: curvature >= TECHNICAL_CURVATURE,
+      };
+    });
+}
@@ -0,0 +1,54 @@
+type DistancePoint = { distance: number; elevation: number };
+
+/**
+ * Reduces a series to at most four points per pixel column (the first, last,
+ * lowest and highest), which draws exactly the same line as the full series
+ * at that width. Unlike averaging or LTTB, every summit and valley floor keeps
+ * its true distance and elevation, so labels placed on a peak stay on it.
+ */
+export function downsampleForColumns<T extends DistancePoint>(
+  points: T[],
+  columns: number
+): T[] {
+  if (points.length <= columns * 4 || columns < 1) return points;
+
+  const startDistance = points[0].distance;
+  const span = points[points.length - 1].distance - startDistance;
+  if (span <= 0) return points;
+
+  const result: T[] = [];
+  let column = -1;
+  let first = 0;
+  let last = 0;
+  let min = 0;
+  let max = 0;
+
+  const flush = () => {
+    // Keep the four points in track order, dropping duplicates when one point plays several roles
+    const indices = [first, min, max, last].sort((a, b) => a - b);
+    indices.forEach((index, i) => {
+      if (i === 0 || index !== indices[i - 1]) result.push(points[index]);
+    });
+  };
+
+  for (let i = 0; i < points.length; i++) {
+    const pointColumn = Math.min(
+      columns - 1,
+      Math.floor(((points[i].distance - startDistance) / span) * columns)
+    );
+
+    if (pointColumn !== column) {
+      if (column !== -1) flush();
+      column = pointColumn;
+      first = last = min = max = i;
+      continue;
+    }
+
+    last = i;
+    if (points[i].elevation < points[min].elevation) min = i;
+    if (points[i].elevation > points[max].elevation) max = i;
+  }
+  flush();
+
+  return result;
+}
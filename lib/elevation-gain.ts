@@ -0,0 +1,67 @@
+export type ElevationGainMethod = "raw" | "hysteresis";
+
+export interface ElevationGainOptions {
+  method: ElevationGainMethod;
+  // Minimum climb or descent in meters before it counts, for the hysteresis method
+  threshold: number;
+}
+
+export const ELEVATION_GAIN_METHODS: Record<ElevationGainMethod, string> = {
+  raw: "Every change",
+  hysteresis: "Hysteresis",
+};
+
+export const DEFAULT_ELEVATION_GAIN: ElevationGainOptions = {
+  method: "hysteresis",
+  threshold: 3,
+};
+
+export interface ElevationChange {
+  gain: number;
+  loss: number;
+}
+
+/**
+ * Totals elevation gain and loss. The raw method sums every delta, which
+ * counts GPS and barometer noise as climbing. The hysteresis method, as used
+ * by head units and ride-tracking sites, only counts a change once the
+ * elevation has moved more than the threshold away from the last counted
+ * point. `breaks` are indices at which the track jumps and counting restarts.
+ */
+export function calculateElevationChange(
+  points: Array<{ elevation: number }>,
+  options: ElevationGainOptions = DEFAULT_ELEVATION_GAIN,
+  breaks: number[] = []
+): ElevationChange {
+  if (points.length === 0) return { gain: 0, loss: 0 };
+
+  const breakIndices = new Set(breaks);
+  const threshold = options.method === "hysteresis" ? options.threshold : 0;
+  let gain = 0;
+  let loss = 0;
+  let reference = points[0].elevation;
+
+  for (let i = 1; i < points.length; i++) {
+    const elevation = points[i].elevation;
+
+    if (breakIndices.has(i)) {
+      reference = elevation;
+      continue;
+    }
+
+    const delta = elevation - reference;
+    if (threshold === 0) {
+      if (delta > 0) gain += delta;
+      else loss -= delta;
+      reference = elevation;
+    } else if (delta >= threshold) {
+      gain += delta;
+      reference = elevation;
+    } else if (-delta >= threshold) {
+      loss -= delta;
+      reference = elevation;
+    }
+  }
+
+  return { gain, loss };
+}
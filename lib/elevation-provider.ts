@@ -0,0 +1,35 @@
+import type { RawTrackPoint } from "./gpx-parser";
+
+/**
+ * A source of terrain elevation for a coordinate, used to fill in points a
+ * track file has no elevation for. Returns null outside its coverage.
+ */
+export interface ElevationProvider {
+  getElevation(latitude: number, longitude: number): number | null;
+}
+
+/**
+ * Whether a recorded elevation should be looked up instead. Route planners
+ * write 0 for every point when they have no elevation data.
+ */
+export function isMissingElevation(elevation: number | null): boolean {
+  return elevation === null || elevation === 0;
+}
+
+/**
+ * Fills missing or zero elevations from the provider, or replaces every
+ * elevation when `replace` is set. Points the provider does not cover keep
+ * their recorded elevation.
+ */
+export function applyElevationProvider(
+  points: RawTrackPoint[],
+  provider: ElevationProvider,
+  replace: boolean = false
+): RawTrackPoint[] {
+  return points.map((point) => {
+    if (!replace && !isMissingElevation(point.elevation)) return point;
+
+    const elevation = provider.getElevation(point.latitude, point.longitude);
+    return elevation === null ? point : { ...point, elevation };
+  });
+}
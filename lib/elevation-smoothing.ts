@@ -0,0 +1,159 @@
+export type SmoothingAlgorithm = "moving-average" | "savitzky-golay" | "median";
+
+export interface SmoothingStep {
+  algorithm: SmoothingAlgorithm;
+  // Width of the window in meters along the track, so dense and sparse recordings smooth alike
+  window: number;
+}
+
+export const SMOOTHING_ALGORITHMS: Record<SmoothingAlgorithm, string> = {
+  "moving-average": "Moving average",
+  "savitzky-golay": "Savitzky–Golay",
+  median: "Median spike filter",
+};
+
+// Roughly the 11-point average the profile used before, at one point per second on a bike
+export const DEFAULT_SMOOTHING: SmoothingStep[] = [
+  { algorithm: "moving-average", window: 100 },
+];
+
+type DistancePoint = { distance: number; elevation: number };
+
+/**
+ * Calls `reduce` with the indices [start, end] of the points within half a
+ * window either side of each point. Windows shrink at the ends of the track
+ * instead of leaving the first and last points unsmoothed.
+ */
+function forEachWindow(
+  points: DistancePoint[],
+  windowKm: number,
+  reduce: (index: number, start: number, end: number) => number
+): number[] {
+  const halfWindow = windowKm / 2;
+  const result: number[] = [];
+  let start = 0;
+  let end = 0;
+
+  for (let i = 0; i < points.length; i++) {
+    const center = points[i].distance;
+    while (points[start].distance < center - halfWindow) start++;
+    while (
+      end + 1 < points.length &&
+      points[end + 1].distance <= center + halfWindow
+    ) {
+      end++;
+    }
+    result.push(reduce(i, start, end));
+  }
+
+  return result;
+}
+
+function movingAverage(points: DistancePoint[], windowKm: number): number[] {
+  return forEachWindow(points, windowKm, (_, start, end) => {
+    let sum = 0;
+    for (let j = start; j <= end; j++) {
+      sum += points[j].elevation;
+    }
+    return sum / (end - start + 1);
+  });
+}
+
+function median(points: DistancePoint[], windowKm: number): number[] {
+  return forEachWindow(points, windowKm, (_, start, end) => {
+    const values = points
+      .slice(start, end + 1)
+      .map((point) => point.elevation)
+      .sort((a, b) => a - b);
+    const middle = Math.floor(values.length / 2);
+    return values.length % 2 === 1
+      ? values[middle]
+      : (values[middle - 1] + values[middle]) / 2;
+  });
+}
+
+/**
+ * Savitzky–Golay smoothing generalised to uneven spacing: a least-squares
+ * quadratic is fitted to the points in each window and evaluated at its
+ * center, which keeps summits and valley floors sharper than an average.
+ */
+function savitzkyGolay(points: DistancePoint[], windowKm: number): number[] {
+  return forEachWindow(points, windowKm, (index, start, end) => {
+    // Fewer than 3 points cannot determine a quadratic
+    if (end - start < 2) return points[index].elevation;
+
+    const center = points[index].distance;
+    // Sums of x^k and x^k * y over the window, with x relative to the center for numerical stability
+    const s = [0, 0, 0, 0, 0];
+    const t = [0, 0, 0];
+    for (let j = start; j <= end; j++) {
+      const x = points[j].distance - center;
+      const y = points[j].elevation;
+      let xk = 1;
+      for (let k = 0; k <= 4; k++) {
+        s[k] += xk;
+        if (k <= 2) t[k] += xk * y;
+        xk *= x;
+      }
+    }
+
+    // Solve the 3x3 normal equations for the constant term by Cramer's rule
+    const det3 = (m: number[][]) =>
+      m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+      m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+      m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+
+    const matrix = [
+      [s[0], s[1], s[2]],
+      [s[1], s[2], s[3]],
+      [s[2], s[3], s[4]],
+    ];
+    const determinant = det3(matrix);
+    if (Math.abs(determinant) < 1e-18) return points[index].elevation;
+
+    const constantMatrix = [
+      [t[0], s[1], s[2]],
+      [t[1], s[2], s[3]],
+      [t[2], s[3], s[4]],
+    ];
+    return det3(constantMatrix) / determinant;
+  });
+}
+
+/**
+ * Runs each smoothing step in order over the elevations, e.g. a median
+ * filter to remove spikes followed by a moving average
+ */
+export function smoothElevations<T extends DistancePoint>(
+  points: T[],
+  steps: SmoothingStep[]
+): T[] {
+  let elevations = points.map((point) => point.elevation);
+
+  for (const step of steps) {
+    if (step.window <= 0 || points.length < 3) continue;
+
+    const current = points.map((point, index) => ({
+      distance: point.distance,
+      elevation: elevations[index],
+    }));
+    const windowKm = step.window / 1000;
+
+    switch (step.algorithm) {
+      case "moving-average":
+        elevations = movingAverage(current, windowKm);
+        break;
+      case "savitzky-golay":
+        elevations = savitzkyGolay(current, windowKm);
+        break;
+      case "median":
+        elevations = median(current, windowKm);
+        break;
+    }
+  }
+
+  return points.map((point, index) => ({
+    ...point,
+    elevation: elevations[index],
+  }));
+}
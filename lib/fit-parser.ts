@@ -0,0 +1,273 @@
+import { addTrackPoint, buildGPXData, type GPXData, type TrackBuildOptions, type TrackSegment } from "./gpx-parser"
+import { pickSensorReadings } from "./sensor-channels"
+
+// Global message number of the FIT "record" message (one sample per second or per smart-recording interval)
+const RECORD_MESSAGE = 20
+
+// Field definition numbers within the record message
+const FIELD_POSITION_LAT = 0
+const FIELD_POSITION_LONG = 1
+const FIELD_ALTITUDE = 2
+const FIELD_HEART_RATE = 3
+const FIELD_CADENCE = 4
+const FIELD_DISTANCE = 5
+const FIELD_POWER = 7
+const FIELD_TEMPERATURE = 13
+const FIELD_ENHANCED_ALTITUDE = 78
+const FIELD_TIMESTAMP = 253
+
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31
+
+// FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIT_EPOCH_OFFSET = 631065600
+
+interface FieldDefinition {
+  number: number
+  size: number
+  baseType: number
+}
+
+interface MessageDefinition {
+  globalMessage: number
+  littleEndian: boolean
+  fields: FieldDefinition[]
+  // Total byte size of developer fields, which are skipped
+  developerDataSize: number
+}
+
+export interface FitRecord {
+  timestamp?: number
+  latitude?: number
+  longitude?: number
+  altitude?: number
+  distance?: number
+  heartRate?: number
+  cadence?: number
+  power?: number
+  temperature?: number
+}
+
+export function isFitFile(buffer: ArrayBuffer): boolean {
+  if (buffer.byteLength < 12) return false
+  const bytes = new Uint8Array(buffer, 8, 4)
+  return String.fromCharCode(...bytes) === ".FIT"
+}
+
+function readUnsigned(view: DataView, offset: number, size: number, littleEndian: boolean): number | undefined {
+  switch (size) {
+    case 1: {
+      const value = view.getUint8(offset)
+      return value === 0xff ? undefined : value
+    }
+    case 2: {
+      const value = view.getUint16(offset, littleEndian)
+      return value === 0xffff ? undefined : value
+    }
+    case 4: {
+      const value = view.getUint32(offset, littleEndian)
+      return value === 0xffffffff ? undefined : value
+    }
+    default:
+      return undefined
+  }
+}
+
+function readSigned8(view: DataView, offset: number, size: number): number | undefined {
+  if (size !== 1) return undefined
+  const value = view.getInt8(offset)
+  return value === 0x7f ? undefined : value
+}
+
+function readSigned32(view: DataView, offset: number, size: number, littleEndian: boolean): number | undefined {
+  if (size !== 4) return undefined
+  const value = view.getInt32(offset, littleEndian)
+  return value === 0x7fffffff ? undefined : value
+}
+
+function decodeRecordField(
+  record: FitRecord,
+  field: FieldDefinition,
+  view: DataView,
+  offset: number,
+  littleEndian: boolean
+) {
+  switch (field.number) {
+    case FIELD_TIMESTAMP:
+      record.timestamp = readUnsigned(view, offset, field.size, littleEndian)
+      break
+    case FIELD_POSITION_LAT: {
+      const value = readSigned32(view, offset, field.size, littleEndian)
+      if (value !== undefined) record.latitude = value * SEMICIRCLES_TO_DEGREES
+      break
+    }
+    case FIELD_POSITION_LONG: {
+      const value = readSigned32(view, offset, field.size, littleEndian)
+      if (value !== undefined) record.longitude = value * SEMICIRCLES_TO_DEGREES
+      break
+    }
+    case FIELD_ALTITUDE: {
+      const value = readUnsigned(view, offset, field.size, littleEndian)
+      // enhanced_altitude takes precedence when both are present
+      if (value !== undefined && record.altitude === undefined) record.altitude = value / 5 - 500
+      break
+    }
+    case FIELD_ENHANCED_ALTITUDE: {
+      const value = readUnsigned(view, offset, field.size, littleEndian)
+      if (value !== undefined) record.altitude = value / 5 - 500
+      break
+    }
+    case FIELD_DISTANCE: {
+      const value = readUnsigned(view, offset, field.size, littleEndian)
+      if (value !== undefined) record.distance = value / 100
+      break
+    }
+    case FIELD_HEART_RATE:
+      record.heartRate = readUnsigned(view, offset, field.size, littleEndian)
+      break
+    case FIELD_CADENCE:
+      record.cadence = readUnsigned(view, offset, field.size, littleEndian)
+      break
+    case FIELD_POWER:
+      record.power = readUnsigned(view, offset, field.size, littleEndian)
+      break
+    case FIELD_TEMPERATURE:
+      record.temperature = readSigned8(view, offset, field.size)
+      break
+  }
+}
+
+/**
+ * Decodes the record messages of a FIT file. Messages other than records are
+ * skipped using their definitions, and developer fields are skipped by size.
+ */
+export function decodeFitRecords(buffer: ArrayBuffer): FitRecord[] {
+  const view = new DataView(buffer)
+  const records: FitRecord[] = []
+  let fileStart = 0
+
+  // A FIT file may contain several chained FIT files back to back
+  while (fileStart + 12 <= buffer.byteLength && isFitFile(buffer.slice(fileStart, fileStart + 12))) {
+    const headerSize = view.getUint8(fileStart)
+    const dataSize = view.getUint32(fileStart + 4, true)
+    const dataEnd = fileStart + headerSize + dataSize
+    if (dataEnd > buffer.byteLength) {
+      throw new Error("Truncated FIT file")
+    }
+
+    const definitions = new Map<number, MessageDefinition>()
+    let lastTimestamp = 0
+    let offset = fileStart + headerSize
+
+    while (offset < dataEnd) {
+      const recordHeader = view.getUint8(offset)
+      offset += 1
+
+      let localMessage: number
+      let timeOffset: number | null = null
+
+      if (recordHeader & 0x80) {
+        // Compressed timestamp header: 2-bit local message type and 5-bit time offset
+        localMessage = (recordHeader >> 5) & 0x03
+        timeOffset = recordHeader & 0x1f
+      } else {
+        localMessage = recordHeader & 0x0f
+
+        if (recordHeader & 0x40) {
+          const hasDeveloperData = (recordHeader & 0x20) !== 0
+          const littleEndian = view.getUint8(offset + 1) === 0
+          const globalMessage = view.getUint16(offset + 2, littleEndian)
+          const fieldCount = view.getUint8(offset + 4)
+          offset += 5
+
+          const fields: FieldDefinition[] = []
+          for (let i = 0; i < fieldCount; i++) {
+            fields.push({
+              number: view.getUint8(offset),
+              size: view.getUint8(offset + 1),
+              baseType: view.getUint8(offset + 2),
+            })
+            offset += 3
+          }
+
+          let developerDataSize = 0
+          if (hasDeveloperData) {
+            const developerFieldCount = view.getUint8(offset)
+            offset += 1
+            for (let i = 0; i < developerFieldCount; i++) {
+              developerDataSize += view.getUint8(offset + 1)
+              offset += 3
+            }
+          }
+
+          definitions.set(localMessage, { globalMessage, littleEndian, fields, developerDataSize })
+          continue
+        }
+      }
+
+      const definition = definitions.get(localMessage)
+      if (!definition) {
+        throw new Error(`FIT data message uses undefined local message type ${localMessage}`)
+      }
+
+      const record: FitRecord = {}
+      for (const field of definition.fields) {
+        if (definition.globalMessage === RECORD_MESSAGE) {
+          decodeRecordField(record, field, view, offset, definition.littleEndian)
+        } else if (field.number === FIELD_TIMESTAMP) {
+          // Every message's timestamp resets the reference for compressed headers
+          const timestamp = readUnsigned(view, offset, field.size, definition.littleEndian)
+          if (timestamp !== undefined) lastTimestamp = timestamp
+        }
+        offset += field.size
+      }
+      offset += definition.developerDataSize
+
+      if (timeOffset !== null) {
+        // The offset replaces the low 5 bits of the last timestamp, rolling over when it wraps
+        let timestamp = lastTimestamp - (lastTimestamp & 0x1f) + timeOffset
+        if (timeOffset < (lastTimestamp & 0x1f)) timestamp += 0x20
+        record.timestamp = timestamp
+      }
+
+      if (definition.globalMessage === RECORD_MESSAGE) {
+        if (record.timestamp !== undefined) lastTimestamp = record.timestamp
+        records.push(record)
+      }
+    }
+
+    // Skip the trailing 2-byte CRC
+    fileStart = dataEnd + 2
+  }
+
+  return records
+}
+
+export function parseFIT(buffer: ArrayBuffer, options: TrackBuildOptions = {}): GPXData {
+  if (!isFitFile(buffer)) {
+    throw new Error("Invalid FIT file format")
+  }
+
+  const segment: TrackSegment = { name: "FIT track", points: [] }
+  decodeFitRecords(buffer).forEach((record) => {
+    // Records logged before a GPS fix only carry sensor data
+    if (record.latitude === undefined || record.longitude === undefined) {
+      addTrackPoint(segment, null)
+      return
+    }
+
+    addTrackPoint(segment, {
+      latitude: record.latitude,
+      longitude: record.longitude,
+      elevation: record.altitude ?? null,
+      distance: record.distance !== undefined ? record.distance / 1000 : undefined,
+      time: record.timestamp !== undefined ? (record.timestamp + FIT_EPOCH_OFFSET) * 1000 : undefined,
+      ...pickSensorReadings(record),
+    })
+  })
+
+  if (segment.points.length === 0) {
+    throw new Error("No track points found in FIT file")
+  }
+
+  return buildGPXData([segment], [], options)
+}
@@ -30,3 +30,19 @@ export function formatNumberWithThousands(
   // Return with comma as decimal separator
   return decimalPart ? `${withThousands},${decimalPart}` : withThousands;
 }
+
+/**
+ * Formats a duration as hours, minutes and seconds
+ * @param seconds - The duration in seconds
+ * @returns Formatted string such as "4:05:09", or "5:09" under an hour
+ */
+export function formatDuration(seconds: number): string {
+  const totalSeconds = Math.round(seconds);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+
+  const paddedSeconds = secs.toString().padStart(2, "0");
+  if (hours === 0) return `${minutes}:${paddedSeconds}`;
+  return `${hours}:${minutes.toString().padStart(2, "0")}:${paddedSeconds}`;
+}
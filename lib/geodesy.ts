@@ -0,0 +1,88 @@
+export type DistanceModel = "haversine" | "vincenty";
+
+export const DISTANCE_MODELS: Record<DistanceModel, string> = {
+  haversine: "Spherical (haversine)",
+  vincenty: "Ellipsoidal (WGS-84)",
+};
+
+// WGS-84 semi-major axis (km) and flattening
+const WGS84_A = 6378.137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+
+const MAX_ITERATIONS = 200;
+const CONVERGENCE = 1e-12;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Distance in kilometers between two points on the WGS-84 ellipsoid, by
+ * Vincenty's inverse formula. Accurate to well under a millimeter, where the
+ * spherical haversine is off by up to 0.5%. Returns null for nearly
+ * antipodal points, where the iteration does not converge.
+ */
+export function vincentyDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number | null {
+  const L = toRadians(lon2 - lon1);
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(lat1)));
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(lat2)));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const sinLambda = Math.sin(lambda);
+    const cosLambda = Math.cos(lambda);
+    const sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 +
+        (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    );
+    // Coincident points
+    if (sinSigma === 0) return 0;
+
+    const cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    const sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    const cos2Alpha = 1 - sinAlpha * sinAlpha;
+    // On the equator cos2Alpha is 0 and the term drops out
+    const cos2SigmaM =
+      cos2Alpha !== 0 ? cosSigma - (2 * sinU1 * sinU2) / cos2Alpha : 0;
+    const C = (WGS84_F / 16) * cos2Alpha * (4 + WGS84_F * (4 - 3 * cos2Alpha));
+
+    const previousLambda = lambda;
+    lambda =
+      L +
+      (1 - C) *
+        WGS84_F *
+        sinAlpha *
+        (sigma +
+          C *
+            sinSigma *
+            (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)));
+
+    if (Math.abs(lambda - previousLambda) < CONVERGENCE) {
+      const u2 = (cos2Alpha * (WGS84_A ** 2 - WGS84_B ** 2)) / WGS84_B ** 2;
+      const A = 1 + (u2 / 16384) * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)));
+      const B = (u2 / 1024) * (256 + u2 * (-128 + u2 * (74 - 47 * u2)));
+      const deltaSigma =
+        B *
+        sinSigma *
+        (cos2SigmaM +
+          (B / 4) *
+            (cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+              (B / 6) *
+                cos2SigmaM *
+                (-3 + 4 * sinSigma * sinSigma) *
+                (-3 + 4 * cos2SigmaM * cos2SigmaM)));
+      return WGS84_B * A * (sigma - deltaSigma);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,118 @@
+import {
+  addTrackPoint,
+  buildGPXData,
+  parseTime,
+  type GPXData,
+  type RawTrackPoint,
+  type RawWaypoint,
+  type TrackBuildOptions,
+  type TrackSegment,
+} from "./gpx-parser"
+
+type Position = number[]
+
+interface GeoJSONGeometry {
+  type: string
+  coordinates?: unknown
+  geometries?: GeoJSONGeometry[]
+}
+
+interface GeoJSONFeature {
+  type: "Feature"
+  geometry: GeoJSONGeometry | null
+  properties?: Record<string, unknown> | null
+}
+
+// GeoJSON positions are [longitude, latitude, elevation?]
+function toRawPoint([lon, lat, ele]: Position): RawTrackPoint | null {
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null
+  return {
+    latitude: lat,
+    longitude: lon,
+    elevation: Number.isFinite(ele) ? ele : null,
+  }
+}
+
+function toSegment(name: string, line: Position[], times: unknown): TrackSegment {
+  const pointTimes = Array.isArray(times) ? times : []
+  const segment: TrackSegment = { name, points: [] }
+  line.forEach((position, index) => {
+    const point = toRawPoint(position)
+    const time = pointTimes[index]
+    addTrackPoint(segment, point && { ...point, time: typeof time === "string" ? parseTime(time) : undefined })
+  })
+  return segment
+}
+
+function featureName(properties: GeoJSONFeature["properties"]): string | undefined {
+  const name = properties?.name ?? properties?.title
+  return typeof name === "string" && name.trim() ? name.trim() : undefined
+}
+
+export function parseGeoJSON(geojsonContent: string, options: TrackBuildOptions = {}): GPXData {
+  let root: { type?: string; features?: GeoJSONFeature[] } & GeoJSONGeometry
+  try {
+    root = JSON.parse(geojsonContent)
+  } catch {
+    throw new Error("Invalid GeoJSON file format")
+  }
+
+  // Accept a FeatureCollection, a single Feature or a bare geometry
+  const features: GeoJSONFeature[] =
+    root.type === "FeatureCollection"
+      ? root.features || []
+      : root.type === "Feature"
+      ? [root as unknown as GeoJSONFeature]
+      : [{ type: "Feature", geometry: root, properties: null }]
+
+  const segments: TrackSegment[] = []
+  const rawWaypoints: RawWaypoint[] = []
+
+  // Timestamps, when present, follow the convention of GPX converters: a "coordTimes" property
+  // holding one ISO string per position, or one such array per line of a MultiLineString
+  const addGeometry = (geometry: GeoJSONGeometry | null, name: string | undefined, times: unknown) => {
+    if (!geometry) return
+
+    switch (geometry.type) {
+      case "LineString":
+        segments.push(toSegment(name || `Line ${segments.length + 1}`, geometry.coordinates as Position[], times))
+        break
+      case "MultiLineString":
+        ;(geometry.coordinates as Position[][]).forEach((line, index) => {
+          segments.push(
+            toSegment(
+              name ? `${name} – part ${index + 1}` : `Line ${segments.length + 1}`,
+              line,
+              Array.isArray(times) ? times[index] : undefined
+            )
+          )
+        })
+        break
+      case "GeometryCollection":
+        geometry.geometries?.forEach((child) => addGeometry(child, name, undefined))
+        break
+      case "Point": {
+        const point = toRawPoint(geometry.coordinates as Position)
+        if (point) {
+          rawWaypoints.push({
+            name: name || `Waypoint ${rawWaypoints.length + 1}`,
+            latitude: point.latitude,
+            longitude: point.longitude,
+          })
+        }
+        break
+      }
+    }
+  }
+
+  features.forEach((feature) =>
+    addGeometry(feature.geometry, featureName(feature.properties), feature.properties?.coordTimes)
+  )
+
+  const nonEmptySegments = segments.filter((segment) => segment.points.length > 0)
+  if (nonEmptySegments.length === 0) {
+    throw new Error("No LineString or MultiLineString features found in GeoJSON file")
+  }
+
+  return buildGPXData(nonEmptySegments, rawWaypoints, options)
+}
@@ -0,0 +1,225 @@
+import type { ElevationPoint } from "./gpx-parser";
+import { smoothElevations } from "./elevation-smoothing";
+
+export type AnomalyType = "gradient" | "spike" | "gap";
+
+export interface TrackAnomaly {
+  type: AnomalyType;
+  // Indices into the unrepaired points, and the stretch of the profile they cover in kilometers
+  startIndex: number;
+  endIndex: number;
+  startDistance: number;
+  endDistance: number;
+}
+
+export const ANOMALY_TYPES: Record<AnomalyType, string> = {
+  gradient: "Implausible gradient",
+  spike: "Elevation spike",
+  gap: "Distance gap",
+};
+
+// No paved road is steeper than this (percent); anything beyond is a barometer jump or a bad fix
+const MAX_PLAUSIBLE_GRADIENT = 35;
+
+// Gradients are measured over at least this distance (km), since elevation noise over a few meters is meaningless
+const MIN_GRADIENT_RUN = 0.02;
+
+// A point further than this (m) from the median of its surroundings is a spike, e.g. under a cliff or bridge
+const SPIKE_THRESHOLD = 25;
+const SPIKE_WINDOW = 200;
+
+// Spacing between consecutive points (km) beyond which the recording lost its fix, as in a tunnel.
+// Planned routes have no timestamps and only place points where the road turns, so they are allowed more.
+const MAX_RECORDED_SPACING = 0.25;
+const MAX_PLANNED_SPACING = 1;
+
+// Gaps are filled with interpolated points this far apart (km), so smoothing windows see an even series
+const GAP_FILL_SPACING = 0.02;
+
+// Merges overlapping or adjacent ranges of the same type into single anomalies
+function mergeRanges(
+  type: AnomalyType,
+  ranges: [number, number][],
+  points: ElevationPoint[]
+): TrackAnomaly[] {
+  const merged: [number, number][] = [];
+  ranges
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([start, end]) => {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1] + 1) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        merged.push([start, end]);
+      }
+    });
+
+  return merged.map(([startIndex, endIndex]) => ({
+    type,
+    startIndex,
+    endIndex,
+    startDistance: points[startIndex].distance,
+    endDistance: points[endIndex].distance,
+  }));
+}
+
+/**
+ * Finds stretches of a profile where GPS or barometer errors rather than the
+ * road shape the elevation: implausibly steep steps, isolated spikes, and
+ * straight-line gaps where the fix was lost. `breaks` are the indices where
+ * the track jumps between segments, which are not gaps in the recording.
+ */
+export function detectAnomalies(
+  points: ElevationPoint[],
+  breaks: number[] = []
+): TrackAnomaly[] {
+  if (points.length < 2) return [];
+
+  const breakIndices = new Set(breaks);
+  const gradientRanges: [number, number][] = [];
+  const spikeRanges: [number, number][] = [];
+  const gapRanges: [number, number][] = [];
+
+  // Gradient over a run of at least MIN_GRADIENT_RUN ending at each point
+  let runStart = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (breakIndices.has(i)) {
+      runStart = i;
+      continue;
+    }
+    while (
+      runStart + 1 < i &&
+      points[i].distance - points[runStart + 1].distance >= MIN_GRADIENT_RUN
+    ) {
+      runStart++;
+    }
+
+    const run = (points[i].distance - points[runStart].distance) * 1000;
+    if (run < MIN_GRADIENT_RUN * 1000) continue;
+    const gradient =
+      ((points[i].elevation - points[runStart].elevation) / run) * 100;
+    if (Math.abs(gradient) > MAX_PLAUSIBLE_GRADIENT) {
+      gradientRanges.push([runStart, i]);
+    }
+  }
+
+  const medians = smoothElevations(points, [
+    { algorithm: "median", window: SPIKE_WINDOW },
+  ]);
+  points.forEach((point, index) => {
+    if (
+      Math.abs(point.elevation - medians[index].elevation) > SPIKE_THRESHOLD
+    ) {
+      spikeRanges.push([index, index]);
+    }
+  });
+
+  for (let i = 1; i < points.length; i++) {
+    if (breakIndices.has(i)) continue;
+    const timed =
+      points[i].time !== undefined && points[i - 1].time !== undefined;
+    const spacing = points[i].distance - points[i - 1].distance;
+    if (spacing > (timed ? MAX_RECORDED_SPACING : MAX_PLANNED_SPACING)) {
+      gapRanges.push([i - 1, i]);
+    }
+  }
+
+  return [
+    ...mergeRanges("gradient", gradientRanges, points),
+    ...mergeRanges("spike", spikeRanges, points),
+    ...mergeRanges("gap", gapRanges, points),
+  ].sort((a, b) => a.startDistance - b.startDistance);
+}
+
+function interpolate(start: number, end: number, ratio: number): number {
+  return start + (end - start) * ratio;
+}
+
+/**
+ * Replaces the elevations inside gradient and spike anomalies by linear
+ * interpolation between the nearest sound points, and fills distance gaps
+ * with evenly spaced interpolated points. Returns the repaired points and,
+ * for each original index, its index in the repaired series.
+ */
+export function repairAnomalies(
+  points: ElevationPoint[],
+  anomalies: TrackAnomaly[]
+): { points: ElevationPoint[]; indices: number[] } {
+  const unsound = new Array<boolean>(points.length).fill(false);
+  anomalies.forEach((anomaly) => {
+    if (anomaly.type === "spike") {
+      for (let i = anomaly.startIndex; i <= anomaly.endIndex; i++) {
+        unsound[i] = true;
+      }
+    } else if (anomaly.type === "gradient") {
+      // The ends of a steep run are where it was measured from; the points between them carry the error
+      for (let i = anomaly.startIndex + 1; i < anomaly.endIndex; i++) {
+        unsound[i] = true;
+      }
+    }
+  });
+
+  let before = -1;
+  const elevations = points.map((point, index) => {
+    if (!unsound[index]) {
+      before = index;
+      return point.elevation;
+    }
+    let after = index + 1;
+    while (after < points.length && unsound[after]) after++;
+
+    if (before === -1 && after === points.length) return point.elevation;
+    if (before === -1) return points[after].elevation;
+    if (after === points.length) return points[before].elevation;
+
+    const span = points[after].distance - points[before].distance;
+    const ratio =
+      span > 0 ? (point.distance - points[before].distance) / span : 0;
+    return interpolate(
+      points[before].elevation,
+      points[after].elevation,
+      ratio
+    );
+  });
+
+  const gapStarts = new Set(
+    anomalies
+      .filter((anomaly) => anomaly.type === "gap")
+      .flatMap((anomaly) =>
+        Array.from(
+          { length: anomaly.endIndex - anomaly.startIndex },
+          (_, offset) => anomaly.startIndex + offset
+        )
+      )
+  );
+
+  const repaired: ElevationPoint[] = [];
+  const indices: number[] = [];
+  points.forEach((point, index) => {
+    indices.push(repaired.length);
+    repaired.push({ ...point, elevation: elevations[index] });
+
+    const next = points[index + 1];
+    if (!gapStarts.has(index) || !next) return;
+
+    const steps = Math.floor(
+      (next.distance - point.distance) / GAP_FILL_SPACING
+    );
+    for (let step = 1; step < steps; step++) {
+      const ratio = step / steps;
+      // Sensor readings are not carried into the gap, since nothing was recorded there
+      repaired.push({
+        distance: interpolate(point.distance, next.distance, ratio),
+        elevation: interpolate(elevations[index], elevations[index + 1], ratio),
+        latitude: interpolate(point.latitude, next.latitude, ratio),
+        longitude: interpolate(point.longitude, next.longitude, ratio),
+        ...(point.time !== undefined &&
+          next.time !== undefined && {
+            time: Math.round(interpolate(point.time, next.time, ratio)),
+          }),
+      });
+    }
+  });
+
+  return { points: repaired, indices };
+}
@@ -0,0 +1,123 @@
+import { applyElevationProvider, type ElevationProvider } from "./elevation-provider"
+import type { ElevationPoint, GPXData, RawTrackPoint } from "./gpx-parser"
+import { simplifyTrack } from "./resampling"
+
+// The parts of a profile label that are written out as a waypoint
+export interface ExportLabel {
+  name: string
+  distance: number
+  elevation: number
+  category?: string
+  averageGradient?: number
+}
+
+export interface GPXExportOptions {
+  name?: string
+  creator?: string
+  // Douglas–Peucker tolerance in meters for thinning out the track points, or none to write them all
+  simplifyTolerance?: number
+  // The same elevation source and replacement the profile was built with, so the file matches what was drawn
+  elevationProvider?: ElevationProvider | null
+  replaceElevations?: boolean
+}
+
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+function formatCoordinate(value: number): string {
+  return value.toFixed(7)
+}
+
+// Interpolates the position between the two track points either side of a distance
+function positionAtDistance(points: ElevationPoint[], distance: number): { lat: number; lon: number } {
+  let low = 0
+  let high = points.length - 1
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2)
+    if (points[mid].distance < distance) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+
+  const next = points[low]
+  const prev = points[Math.max(0, low - 1)]
+  const span = next.distance - prev.distance
+  const t = span > 0 ? Math.min(1, Math.max(0, (distance - prev.distance) / span)) : 0
+
+  return {
+    lat: prev.latitude + (next.latitude - prev.latitude) * t,
+    lon: prev.longitude + (next.longitude - prev.longitude) * t,
+  }
+}
+
+// Points neither the file nor the elevation provider have an elevation for are written without one
+function trackPointXML(point: RawTrackPoint): string {
+  const elevation = point.elevation === null ? "" : `<ele>${point.elevation.toFixed(1)}</ele>`
+  return (
+    `      <trkpt lat="${formatCoordinate(point.latitude)}" lon="${formatCoordinate(point.longitude)}">` +
+    `${elevation}</trkpt>`
+  )
+}
+
+function waypointXML(label: ExportLabel, points: ElevationPoint[]): string {
+  const { lat, lon } = positionAtDistance(points, label.distance)
+  const lines = [
+    `  <wpt lat="${formatCoordinate(lat)}" lon="${formatCoordinate(lon)}">`,
+    `    <ele>${label.elevation.toFixed(1)}</ele>`,
+    `    <name>${escapeXML(label.name)}</name>`,
+  ]
+  if (label.averageGradient !== undefined) {
+    lines.push(`    <desc>${escapeXML(`${label.averageGradient.toFixed(1)}% average gradient`)}</desc>`)
+  }
+  if (label.category) {
+    lines.push(`    <type>${escapeXML(label.category)}</type>`)
+  }
+  lines.push("  </wpt>")
+  return lines.join("\n")
+}
+
+/**
+ * Writes the loaded course as GPX 1.1, with every label as a waypoint so the
+ * annotated route can be loaded onto a head unit. Each selected segment is
+ * written as its own <trkseg> with the elevations as recorded or looked up,
+ * since the smoothed profile is only meant for drawing and measuring climbs.
+ */
+export function exportGPX(gpxData: GPXData, labels: ExportLabel[], options: GPXExportOptions = {}): string {
+  const { elevationPoints } = gpxData
+  const name = options.name || "Elevation profile"
+
+  const segments = gpxData.selectedSegments.map((index) => {
+    const recorded = gpxData.segments[index].points
+    const withElevations = options.elevationProvider
+      ? applyElevationProvider(recorded, options.elevationProvider, options.replaceElevations)
+      : recorded
+    const points = simplifyTrack(withElevations, options.simplifyTolerance ?? 0)
+    return ["    <trkseg>", ...points.map(trackPointXML), "    </trkseg>"].join("\n")
+  })
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="${escapeXML(options.creator || "TDF Elevation Profile Generator")}" ` +
+      `xmlns="http://www.topografix.com/GPX/1/1" ` +
+      `xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ` +
+      `xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">`,
+    `  <metadata>`,
+    `    <name>${escapeXML(name)}</name>`,
+    `  </metadata>`,
+    ...[...labels].sort((a, b) => a.distance - b.distance).map((label) => waypointXML(label, elevationPoints)),
+    `  <trk>`,
+    `    <name>${escapeXML(name)}</name>`,
+    ...segments,
+    `  </trk>`,
+    `</gpx>`,
+    ``,
+  ].join("\n")
+}
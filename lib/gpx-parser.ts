@@ -1,21 +1,123 @@
-export interface ElevationPoint {
+import { applyElevationProvider, type ElevationProvider } from "./elevation-provider"
+import { DEFAULT_SMOOTHING, smoothElevations, type SmoothingStep } from "./elevation-smoothing"
+import { calculateRideStats, type RideStats } from "./ride-stats"
+import { pickSensorReadings, type SensorReadings } from "./sensor-channels"
+import { calculateElevationChange, DEFAULT_ELEVATION_GAIN, type ElevationGainOptions } from "./elevation-gain"
+import { localName, readXML, type XMLSource } from "./xml-reader"
+import { detectAnomalies, repairAnomalies, type TrackAnomaly } from "./gps-anomalies"
+import { vincentyDistance, type DistanceModel } from "./geodesy"
+import { resampleByDistance } from "./resampling"
+
+export interface ElevationPoint extends SensorReadings {
   distance: number
   elevation: number
   latitude: number
   longitude: number
+  // Milliseconds since the Unix epoch, for recorded rides
+  time?: number
 }
 
 export interface GPXData {
   elevationPoints: ElevationPoint[]
   totalDistance: number
   totalElevationGain: number
+  totalElevationLoss: number
   maxElevation: number
   minElevation: number
   startPoint: { lat: number; lon: number; elevation: number }
   endPoint: { lat: number; lon: number; elevation: number }
+  // Waypoints within reach of the selected segments, snapped to the profile
+  waypoints: Waypoint[]
+  // Every waypoint in the source file, snapped again on each rebuild since the selection decides which are in reach
+  rawWaypoints: RawWaypoint[]
+  // Every segment in the source file, and the indices of those concatenated into elevationPoints
+  segments: TrackSegment[]
+  selectedSegments: number[]
+  // Jumps between consecutive segments that were left out of totalDistance
+  gaps: TrackGap[]
+  // Whether the file recorded its own distances (TCX, FIT), which are used instead of the distance model
+  recordedDistances: boolean
+  // Time, speed and stops for recorded rides, or null for planned courses without timestamps
+  rideStats: RideStats | null
+  // GPS and barometer errors found before smoothing, whether or not they were interpolated over
+  anomalies: TrackAnomaly[]
+}
+
+// A point as read from a track file, before distances are accumulated
+export interface RawTrackPoint extends SensorReadings {
+  latitude: number
+  longitude: number
+  // Null when the file has no elevation for the point
+  elevation: number | null
+  // Cumulative distance in kilometers, when the file records it
+  distance?: number
+  // Milliseconds since the Unix epoch
+  time?: number
+}
+
+// A contiguous run of points, e.g. one <trkseg> of a <trk>
+export interface TrackSegment {
+  name: string
+  points: RawTrackPoint[]
+  // Points in the file that were left out for lack of usable coordinates
+  skippedPoints?: number
+}
+
+export interface TrackGap {
+  // Index in elevationPoints of the first point after the jump
+  index: number
+  // Distance along the profile at which the next segment starts
+  distance: number
+  // Straight-line length of the skipped jump in kilometers
+  length: number
+}
+
+export interface TrackBuildOptions {
+  // Indices of the segments to concatenate, defaulting to all of them
+  selectedSegments?: number[]
+  // Source for elevations the file is missing, e.g. SRTM tiles
+  elevationProvider?: ElevationProvider | null
+  // Use the provider for every point, discarding recorded (often barometric) elevations
+  replaceElevations?: boolean
+  // Smoothing applied to the elevations before gain is totalled, defaulting to a 100 m moving average
+  smoothing?: SmoothingStep[]
+  // How gain and loss are totalled from the smoothed series
+  elevationGain?: ElevationGainOptions
+  // Interpolate over detected GPS anomalies before smoothing, so they do not turn into false climbs
+  interpolateAnomalies?: boolean
+  // Earth model for distances between points, defaulting to the haversine sphere
+  distanceModel?: DistanceModel
+  // Measure along the slope rather than the map, adding the climbing to the distance
+  slopeDistance?: boolean
+  // Official length in kilometers, e.g. from a race roadbook, that all distances are scaled to match
+  officialDistance?: number
+  // Spacing in meters to resample the profile to before smoothing, instead of the recorded spacing
+  resampleStep?: number
+}
+
+// A named point of interest from the file, such as an organiser's checkpoint
+export interface RawWaypoint {
+  name: string
+  type?: string
+  latitude: number
+  longitude: number
 }
 
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
+// A waypoint snapped to the nearest point along the track
+export interface Waypoint extends RawWaypoint {
+  distance: number
+  elevation: number
+  // Position in the list it was snapped from, which a rebuild keeps even when other waypoints drop off the track
+  index: number
+}
+
+// Waypoints further than this from the track (in kilometers) are off-course points of interest
+const MAX_WAYPOINT_OFFSET = 0.5
+
+// Jumps between segments longer than this (in kilometers) are treated as teleports rather than ridden distance
+const MAX_SEGMENT_JOIN = 0.2
+
+export function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
   const R = 6371 // Earth's radius in kilometers
   const dLat = ((lat2 - lat1) * Math.PI) / 180
   const dLon = ((lon2 - lon1) * Math.PI) / 180
@@ -26,99 +128,392 @@ function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: numbe
   return R * c
 }
 
-export function parseGPX(gpxContent: string): GPXData {
-  const parser = new DOMParser()
-  const xmlDoc = parser.parseFromString(gpxContent, "text/xml")
+// Extension elements read for each sensor channel, in order of preference: Garmin TrackPointExtension (hr, cad,
+// atemp) and the power extensions written by Garmin and Strava
+const SENSOR_EXTENSIONS: Record<keyof SensorReadings, string[]> = {
+  heartRate: ["hr", "heartrate"],
+  cadence: ["cad", "cadence"],
+  temperature: ["atemp", "temp", "wtemp"],
+  power: ["PowerInWatts", "power", "watts"],
+}
+
+function parseNumber(text: string | undefined): number | undefined {
+  const value = Number.parseFloat(text || "")
+  return Number.isFinite(value) ? value : undefined
+}
 
-  // Check for parsing errors
-  const parserError = xmlDoc.querySelector("parsererror")
-  if (parserError) {
-    throw new Error("Invalid GPX file format")
+export function parseTime(text: string | null | undefined): number | undefined {
+  if (!text) return undefined
+  const time = Date.parse(text.trim())
+  return Number.isNaN(time) ? undefined : time
+}
+
+// A <trkpt>, <rtept> or <wpt> while it is being read, with the text of its child and extension elements
+interface OpenPoint {
+  attributes: Record<string, string>
+  fields: Map<string, string>
+  extensions: Map<string, string>
+}
+
+function sensorReadings(extensions: Map<string, string>): SensorReadings {
+  const readings: SensorReadings = {}
+  for (const [channel, localNames] of Object.entries(SENSOR_EXTENSIONS)) {
+    const name = localNames.find((localName) => parseNumber(extensions.get(localName)) !== undefined)
+    if (name) readings[channel as keyof SensorReadings] = parseNumber(extensions.get(name))
   }
+  return pickSensorReadings(readings)
+}
+
+// Adds a parsed point to a segment, counting points that had no usable coordinates instead
+export function addTrackPoint(segment: TrackSegment, point: RawTrackPoint | null) {
+  if (point) {
+    segment.points.push(point)
+  } else {
+    segment.skippedPoints = (segment.skippedPoints ?? 0) + 1
+  }
+}
+
+function trackPoint(point: OpenPoint): RawTrackPoint | null {
+  const latitude = parseNumber(point.attributes.lat)
+  const longitude = parseNumber(point.attributes.lon)
+  if (latitude === undefined || longitude === undefined) return null
+
+  return {
+    latitude,
+    longitude,
+    elevation: parseNumber(point.fields.get("ele")) ?? null,
+    time: parseTime(point.fields.get("time")),
+    ...sensorReadings(point.extensions),
+  }
+}
+
+/**
+ * Parses GPX with the streaming XML reader rather than DOMParser, so it also
+ * runs in a Web Worker and never holds a DOM of a large recording in memory.
+ * Tracks are read one segment per <trkseg>, falling back to routes for files
+ * exported by course planners.
+ */
+export function parseGPX(
+  source: XMLSource,
+  options: TrackBuildOptions = {},
+  onProgress?: (fraction: number) => void
+): GPXData {
+  const tracks: { name?: string; segments: TrackSegment[] }[] = []
+  const routes: TrackSegment[] = []
+  const rawWaypoints: RawWaypoint[] = []
+
+  // Local names of the open elements, and the text read since the innermost one opened
+  const path: string[] = []
+  let text = ""
+  let point: OpenPoint | null = null
+  let extensionDepth = 0
+
+  readXML(
+    source,
+    {
+      openTag(name, attributes) {
+        const tag = localName(name)
+        path.push(tag)
+        text = ""
+
+        if (tag === "trk") {
+          tracks.push({ segments: [] })
+        } else if (tag === "trkseg" && path[path.length - 2] === "trk") {
+          tracks[tracks.length - 1].segments.push({ name: "", points: [] })
+        } else if (tag === "rte") {
+          routes.push({ name: "", points: [] })
+        } else if (tag === "trkpt" || tag === "rtept" || tag === "wpt") {
+          point = { attributes, fields: new Map(), extensions: new Map() }
+        } else if (tag === "extensions" && point) {
+          extensionDepth = path.length
+        }
+      },
+
+      text(chunk) {
+        text += chunk
+      },
 
-  // Get track points from GPX
-  const trackPoints = Array.from(xmlDoc.querySelectorAll("trkpt"))
+      closeTag(name) {
+        const tag = localName(name)
+        const parent = path[path.length - 2]
+        const value = text.trim()
+        path.pop()
+        text = ""
 
-  if (trackPoints.length === 0) {
+        if (point && extensionDepth > 0 && path.length >= extensionDepth) {
+          // The first reading of each extension element wins, whatever wrapper element it is nested in
+          if (value && !point.extensions.has(tag)) point.extensions.set(tag, value)
+          return
+        }
+        if (tag === "extensions") extensionDepth = 0
+
+        if (tag === "trkpt" && parent === "trkseg" && point) {
+          const segments = tracks[tracks.length - 1]?.segments
+          const segment = segments?.[segments.length - 1]
+          if (segment) addTrackPoint(segment, trackPoint(point))
+          point = null
+        } else if (tag === "rtept" && parent === "rte" && point) {
+          addTrackPoint(routes[routes.length - 1], trackPoint(point))
+          point = null
+        } else if (tag === "wpt" && point) {
+          rawWaypoints.push({
+            name: point.fields.get("name") || `Waypoint ${rawWaypoints.length + 1}`,
+            type: point.fields.get("type") || undefined,
+            latitude: Number.parseFloat(point.attributes.lat || "0"),
+            longitude: Number.parseFloat(point.attributes.lon || "0"),
+          })
+          point = null
+        } else if (point && (parent === "trkpt" || parent === "rtept" || parent === "wpt")) {
+          point.fields.set(tag, value)
+        } else if (tag === "name" && value) {
+          // Only direct children, so a <trk> does not pick up the <name> of a nested point
+          if (parent === "trk") tracks[tracks.length - 1].name = value
+          if (parent === "rte") routes[routes.length - 1].name = value
+        }
+      },
+    },
+    onProgress
+  )
+
+  let segments: TrackSegment[] = tracks.flatMap((track, trackIndex) => {
+    const trackName = track.name || `Track ${trackIndex + 1}`
+    return track.segments.map((segment, segmentIndex) => ({
+      ...segment,
+      name: track.segments.length > 1 ? `${trackName} – segment ${segmentIndex + 1}` : trackName,
+    }))
+  })
+
+  if (segments.every((segment) => segment.points.length === 0)) {
+    segments = routes.map((route, routeIndex) => ({ ...route, name: route.name || `Route ${routeIndex + 1}` }))
+  }
+
+  const nonEmptySegments = segments.filter((segment) => segment.points.length > 0)
+  if (nonEmptySegments.length === 0) {
     throw new Error("No track points found in GPX file")
   }
 
+  return buildGPXData(nonEmptySegments, rawWaypoints, options)
+}
+
+// Length of a single segment in kilometers, for describing it before it is selected
+export function segmentLength(segment: TrackSegment): number {
+  let length = 0
+  for (let i = 1; i < segment.points.length; i++) {
+    const prev = segment.points[i - 1]
+    const point = segment.points[i]
+    length += calculateDistance(prev.latitude, prev.longitude, point.latitude, point.longitude)
+  }
+  return length
+}
+
+// Rebuilds the profile from the source segments with different options, keeping the current selection by default
+export function rebuildGPXData(
+  data: Pick<GPXData, "segments" | "rawWaypoints" | "selectedSegments">,
+  options: TrackBuildOptions
+): GPXData {
+  return buildGPXData(data.segments, data.rawWaypoints, {
+    selectedSegments: data.selectedSegments,
+    ...options,
+  })
+}
+
+/**
+ * Accumulates distance, elevation gain and bounds for points read by any of the track parsers.
+ * Selected segments are concatenated in file order.
+ */
+export function buildGPXData(
+  segments: TrackSegment[],
+  rawWaypoints: RawWaypoint[] = [],
+  options: TrackBuildOptions = {}
+): GPXData {
+  const {
+    selectedSegments = segments.map((_, index) => index),
+    elevationProvider,
+    replaceElevations = false,
+    smoothing = DEFAULT_SMOOTHING,
+    elevationGain = DEFAULT_ELEVATION_GAIN,
+    interpolateAnomalies = false,
+    distanceModel = "haversine",
+    slopeDistance = false,
+    officialDistance,
+    resampleStep,
+  } = options
+  const selected = [...selectedSegments].sort((a, b) => a - b).filter((index) => segments[index]?.points.length > 0)
+  if (selected.length === 0) {
+    throw new Error("No track points found")
+  }
+
+  const horizontalDistance = (lat1: number, lon1: number, lat2: number, lon2: number) =>
+    (distanceModel === "vincenty" ? vincentyDistance(lat1, lon1, lat2, lon2) : null) ??
+    calculateDistance(lat1, lon1, lat2, lon2)
+
   const elevationPoints: ElevationPoint[] = []
+  const gaps: TrackGap[] = []
   let totalDistance = 0
-  let totalElevationGain = 0
-  let maxElevation = Number.NEGATIVE_INFINITY
-  let minElevation = Number.POSITIVE_INFINITY
-  let previousElevation: number | null = null
-
-  trackPoints.forEach((point, index) => {
-    const lat = Number.parseFloat(point.getAttribute("lat") || "0")
-    const lon = Number.parseFloat(point.getAttribute("lon") || "0")
-    const eleElement = point.querySelector("ele")
-    const elevation = eleElement ? Number.parseFloat(eleElement.textContent || "0") : 0
-
-    // Calculate distance from previous point
-    if (index > 0) {
-      const prevPoint = elevationPoints[index - 1]
-      const distance = calculateDistance(prevPoint.latitude, prevPoint.longitude, lat, lon)
-      totalDistance += distance
-    }
+  let recordedDistances = false
 
-    // Calculate elevation gain
-    if (previousElevation !== null && elevation > previousElevation) {
-      totalElevationGain += elevation - previousElevation
-    }
-    previousElevation = elevation
+  selected.forEach((segmentIndex) => {
+    const points = elevationProvider
+      ? applyElevationProvider(segments[segmentIndex].points, elevationProvider, replaceElevations)
+      : segments[segmentIndex].points
+    // Recorded distances restart with every segment, so they are offset to continue the profile
+    let recordedDistanceOffset: number | null = null
+    // Slope distance only counts climbing between points that both have an elevation
+    let previousElevation: number | null = null
 
-    // Track min/max elevation
-    maxElevation = Math.max(maxElevation, elevation)
-    minElevation = Math.min(minElevation, elevation)
+    points.forEach((point, index) => {
+      const { latitude: lat, longitude: lon } = point
+      // Points without any elevation source fall back to sea level
+      const elevation = point.elevation ?? 0
+      const prevPoint = elevationPoints[elevationPoints.length - 1]
 
-    elevationPoints.push({
-      distance: totalDistance,
-      elevation,
-      latitude: lat,
-      longitude: lon,
+      if (index === 0 && prevPoint) {
+        // Join to the previous segment, unless the jump between them is a teleport
+        const jump = horizontalDistance(prevPoint.latitude, prevPoint.longitude, lat, lon)
+        if (jump > MAX_SEGMENT_JOIN) {
+          gaps.push({ index: elevationPoints.length, distance: totalDistance, length: jump })
+        } else {
+          totalDistance += jump
+        }
+      }
+
+      // Prefer the distance recorded by the device, falling back to haversine from the previous point
+      if (point.distance !== undefined) {
+        recordedDistances = true
+        if (recordedDistanceOffset === null) recordedDistanceOffset = totalDistance - point.distance
+        totalDistance = Math.max(totalDistance, recordedDistanceOffset + point.distance)
+      } else if (index > 0) {
+        const distance = horizontalDistance(prevPoint.latitude, prevPoint.longitude, lat, lon)
+        const climb =
+          slopeDistance && point.elevation !== null && previousElevation !== null
+            ? (point.elevation - previousElevation) / 1000
+            : 0
+        totalDistance += Math.hypot(distance, climb)
+      }
+      previousElevation = point.elevation
+
+      elevationPoints.push({
+        distance: totalDistance,
+        elevation,
+        latitude: lat,
+        longitude: lon,
+        ...(point.time !== undefined && { time: point.time }),
+        ...pickSensorReadings(point),
+      })
     })
   })
 
-  // Smooth the elevation data to reduce noise
-  const smoothedPoints = smoothElevationData(elevationPoints)
+  // Scale to the official length, so kilometer markers match the signs on the road
+  if (officialDistance && officialDistance > 0 && totalDistance > 0) {
+    const scale = officialDistance / totalDistance
+    elevationPoints.forEach((point) => {
+      point.distance *= scale
+    })
+    gaps.forEach((gap) => {
+      gap.distance *= scale
+    })
+    totalDistance = officialDistance
+  }
+
+  // Anomalies are found in the raw series, where a spike has not yet been spread out by smoothing
+  const anomalies = detectAnomalies(
+    elevationPoints,
+    gaps.map((gap) => gap.index)
+  )
+  let profilePoints = elevationPoints
+  if (interpolateAnomalies && anomalies.length > 0) {
+    const repaired = repairAnomalies(elevationPoints, anomalies)
+    profilePoints = repaired.points
+    // Filling distance gaps inserts points, moving the later segment joins
+    gaps.forEach((gap) => {
+      gap.index = repaired.indices[gap.index]
+    })
+  }
+  // Even spacing, so smoothing windows and climb gradients are measured over the same step everywhere
+  if (resampleStep) {
+    const resampled = resampleByDistance(
+      profilePoints,
+      resampleStep,
+      gaps.map((gap) => gap.index)
+    )
+    profilePoints = resampled.points
+    gaps.forEach((gap, index) => {
+      gap.index = resampled.breaks[index]
+    })
+  }
+
+  let maxElevation = Number.NEGATIVE_INFINITY
+  let minElevation = Number.POSITIVE_INFINITY
+  profilePoints.forEach((point) => {
+    maxElevation = Math.max(maxElevation, point.elevation)
+    minElevation = Math.min(minElevation, point.elevation)
+  })
+
+  // Smooth the elevation data to reduce noise, and total the gain from the smoothed series.
+  // The climb or descent across a skipped jump is not part of the ride.
+  const smoothedPoints = smoothElevations(profilePoints, smoothing)
+  const { gain: totalElevationGain, loss: totalElevationLoss } = calculateElevationChange(
+    smoothedPoints,
+    elevationGain,
+    gaps.map((gap) => gap.index)
+  )
 
   return {
     elevationPoints: smoothedPoints,
     totalDistance,
     totalElevationGain,
+    totalElevationLoss,
     maxElevation,
     minElevation,
+    waypoints: snapWaypoints(rawWaypoints, smoothedPoints),
+    rawWaypoints,
+    segments,
+    selectedSegments: selected,
+    gaps,
+    recordedDistances,
+    rideStats: calculateRideStats(
+      smoothedPoints,
+      gaps.map((gap) => gap.index)
+    ),
+    anomalies,
     startPoint: {
-      lat: elevationPoints[0].latitude,
-      lon: elevationPoints[0].longitude,
-      elevation: elevationPoints[0].elevation,
+      lat: profilePoints[0].latitude,
+      lon: profilePoints[0].longitude,
+      elevation: profilePoints[0].elevation,
     },
     endPoint: {
-      lat: elevationPoints[elevationPoints.length - 1].latitude,
-      lon: elevationPoints[elevationPoints.length - 1].longitude,
-      elevation: elevationPoints[elevationPoints.length - 1].elevation,
+      lat: profilePoints[profilePoints.length - 1].latitude,
+      lon: profilePoints[profilePoints.length - 1].longitude,
+      elevation: profilePoints[profilePoints.length - 1].elevation,
     },
   }
 }
 
-function smoothElevationData(points: ElevationPoint[]): ElevationPoint[] {
-  if (points.length < 3) return points
+// Places each waypoint at the nearest point of the profile, leaving out those that are off the course
+export function snapWaypoints(rawWaypoints: RawWaypoint[], points: ElevationPoint[]): Waypoint[] {
+  const waypoints: Waypoint[] = []
 
-  const smoothed = [...points]
-  const windowSize = 5
+  rawWaypoints.forEach((waypoint, index) => {
+    let closestPoint = points[0]
+    let minOffset = Number.POSITIVE_INFINITY
 
-  for (let i = windowSize; i < points.length - windowSize; i++) {
-    let sum = 0
-    for (let j = i - windowSize; j <= i + windowSize; j++) {
-      sum += points[j].elevation
-    }
-    smoothed[i] = {
-      ...points[i],
-      elevation: sum / (windowSize * 2 + 1),
+    for (const point of points) {
+      const offset = calculateDistance(waypoint.latitude, waypoint.longitude, point.latitude, point.longitude)
+      if (offset < minOffset) {
+        minOffset = offset
+        closestPoint = point
+      }
     }
-  }
 
-  return smoothed
+    if (minOffset > MAX_WAYPOINT_OFFSET) return
+
+    waypoints.push({
+      ...waypoint,
+      distance: closestPoint.distance,
+      elevation: closestPoint.elevation,
+      index,
+    })
+  })
+
+  return waypoints.sort((a, b) => a.distance - b.distance)
 }
@@ -0,0 +1,12 @@
+// Colour bands for gradients in percent, from easy to brutal, as used on climb profiles in race previews
+const GRADIENT_BANDS: Array<{ below: number; color: string }> = [
+  { below: 3, color: "#65a30d" },
+  { below: 6, color: "#eab308" },
+  { below: 9, color: "#f97316" },
+  { below: 12, color: "#dc2626" },
+  { below: Number.POSITIVE_INFINITY, color: "#7f1d1d" },
+];
+
+export function gradientColor(gradient: number): string {
+  return GRADIENT_BANDS.find((band) => gradient < band.below)!.color;
+}
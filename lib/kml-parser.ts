@@ -0,0 +1,128 @@
+import {
+  addTrackPoint,
+  buildGPXData,
+  parseTime,
+  type GPXData,
+  type RawTrackPoint,
+  type RawWaypoint,
+  type TrackBuildOptions,
+  type TrackSegment,
+} from "./gpx-parser"
+import { localName, readXML, type XMLSource } from "./xml-reader"
+
+// Parses a KML coordinate tuple, "lon,lat[,alt]" in <coordinates> or "lon lat [alt]" in <gx:coord>
+function parseCoordinate(tuple: string): RawTrackPoint | null {
+  const [lon, lat, alt] = tuple.split(/[\s,]+/).map(Number.parseFloat)
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null
+  return {
+    latitude: lat,
+    longitude: lon,
+    elevation: Number.isFinite(alt) ? alt : null,
+  }
+}
+
+export function parseKML(
+  source: XMLSource,
+  options: TrackBuildOptions = {},
+  onProgress?: (fraction: number) => void
+): GPXData {
+  // Lines drawn in Google Earth (one per <LineString>, a MultiGeometry may hold several) and recorded <gx:Track>s
+  const lines: { placemark: number; segment: TrackSegment }[] = []
+  const tracks: { placemark: number; segment: TrackSegment }[] = []
+  // Name and <Point> coordinates of each placemark, by placemark index
+  const placemarks: { name?: string; point?: RawTrackPoint | null }[] = []
+
+  // Local names of the open elements, and the text read since the innermost one opened
+  const path: string[] = []
+  let text = ""
+  let placemark = -1
+  // Each <when> pairs with the <gx:coord> at the same position in the open <gx:Track>
+  let times: (number | undefined)[] = []
+  let coords: string[] = []
+
+  readXML(
+    source,
+    {
+      openTag(name) {
+        const tag = localName(name)
+        path.push(tag)
+        text = ""
+
+        if (tag === "Placemark") {
+          placemark = placemarks.length
+          placemarks.push({})
+        } else if (tag === "Track") {
+          times = []
+          coords = []
+        }
+      },
+
+      text(chunk) {
+        text += chunk
+      },
+
+      closeTag(name) {
+        const tag = localName(name)
+        const parent = path[path.length - 2]
+        const value = text.trim()
+        path.pop()
+        text = ""
+
+        if (tag === "Placemark") {
+          placemark = -1
+        } else if (tag === "name" && parent === "Placemark") {
+          placemarks[placemark].name ??= value || undefined
+        } else if (tag === "coordinates" && parent === "LineString") {
+          const segment: TrackSegment = { name: "", points: [] }
+          if (value) value.split(/\s+/).forEach((tuple) => addTrackPoint(segment, parseCoordinate(tuple)))
+          lines.push({ placemark, segment })
+        } else if (tag === "coordinates" && parent === "Point" && placemark !== -1) {
+          if (placemarks[placemark].point === undefined) placemarks[placemark].point = parseCoordinate(value)
+        } else if (tag === "when" && parent === "Track") {
+          times.push(parseTime(value))
+        } else if (tag === "coord" && parent === "Track") {
+          coords.push(value)
+        } else if (tag === "Track") {
+          const segment: TrackSegment = { name: "", points: [] }
+          coords.forEach((coord, index) => {
+            const point = parseCoordinate(coord)
+            addTrackPoint(segment, point && { ...point, time: times[index] })
+          })
+          tracks.push({ placemark, segment })
+        }
+      },
+    },
+    onProgress
+  )
+
+  const placemarkName = (index: number) => (index === -1 ? undefined : placemarks[index].name)
+  const segments: TrackSegment[] = [
+    ...lines.map((line, index) => ({
+      ...line.segment,
+      name: placemarkName(line.placemark) || `Line ${index + 1}`,
+    })),
+    ...tracks.map((track, index) => ({
+      ...track.segment,
+      name: placemarkName(track.placemark) || `Track ${lines.length + index + 1}`,
+    })),
+  ]
+
+  const nonEmptySegments = segments.filter((segment) => segment.points.length > 0)
+  if (nonEmptySegments.length === 0) {
+    throw new Error("No LineString or gx:Track coordinates found in KML file")
+  }
+
+  // Placemarks holding a single <Point> become waypoints
+  const rawWaypoints: RawWaypoint[] = []
+  placemarks.forEach(({ name, point }, index) => {
+    if (!point) return
+
+    rawWaypoints.push({
+      name: name || `Waypoint ${index + 1}`,
+      latitude: point.latitude,
+      longitude: point.longitude,
+    })
+  })
+
+  return buildGPXData(nonEmptySegments, rawWaypoints, options)
+}
@@ -0,0 +1,104 @@
+import type { ClimbSegment } from "./climb-detector";
+import {
+  categorizeClimb,
+  CLIMB_CATEGORIES,
+  type ClimbCategory,
+  type ClimbScoring,
+} from "./climb-scoring";
+
+export type RaceEvent = "tdf" | "giro" | "vuelta" | "sportive";
+
+interface RaceEventRules {
+  name: string;
+  // Multiplies the score thresholds of every category; below 1 categorises more generously than the Tour
+  thresholdScale: number;
+  // Hardest category the event awards, e.g. the Giro has no hors catégorie
+  hardestCategory: ClimbCategory;
+  // A climb finishing the stage is moved up a category
+  summitFinishUpgrade: boolean;
+  // Prize for the highest point of the race, if the event awards one
+  highestPointName?: string;
+}
+
+export const RACE_EVENTS: Record<RaceEvent, RaceEventRules> = {
+  tdf: {
+    name: "Tour de France",
+    thresholdScale: 1,
+    hardestCategory: "HC",
+    summitFinishUpgrade: true,
+    highestPointName: "Souvenir Henri Desgrange",
+  },
+  giro: {
+    name: "Giro d'Italia",
+    thresholdScale: 0.85,
+    hardestCategory: "1",
+    summitFinishUpgrade: true,
+    highestPointName: "Cima Coppi",
+  },
+  vuelta: {
+    name: "Vuelta a España",
+    thresholdScale: 0.9,
+    hardestCategory: "HC",
+    summitFinishUpgrade: true,
+    highestPointName: "Cima Alberto Fernández",
+  },
+  // Sportives list climbs for riders' information only, so fewer of them make the higher categories
+  sportive: {
+    name: "Amateur sportive",
+    thresholdScale: 1.2,
+    hardestCategory: "HC",
+    summitFinishUpgrade: false,
+  },
+};
+
+// A climb whose summit is this close to the end of the track (km) is a summit finish
+const SUMMIT_FINISH_DISTANCE = 0.5;
+
+/**
+ * Categorises climbs the way an event's organiser would: on the event's own
+ * scale, capped at its hardest category, with a climb to the finish moved up
+ * one category. The highest categorised summit is given the event's
+ * highest-point prize.
+ */
+export function applyRaceEvent(
+  climbs: ClimbSegment[],
+  event: RaceEvent,
+  scoring: ClimbScoring,
+  finishDistance: number
+): ClimbSegment[] {
+  const rules = RACE_EVENTS[event];
+  const hardest = CLIMB_CATEGORIES.indexOf(rules.hardestCategory);
+
+  const categorised = climbs.map((climb) => {
+    const category = categorizeClimb(
+      climb.score / rules.thresholdScale,
+      scoring
+    );
+    const summitFinish =
+      finishDistance - climb.peakDistance <= SUMMIT_FINISH_DISTANCE;
+
+    let rank = category ? CLIMB_CATEGORIES.indexOf(category) : -1;
+    if (rank !== -1 && summitFinish && rules.summitFinishUpgrade) rank--;
+    if (rank !== -1) rank = Math.max(rank, hardest);
+
+    return {
+      ...climb,
+      category: rank === -1 ? null : CLIMB_CATEGORIES[rank],
+      summitFinish,
+    };
+  });
+
+  // The prize goes to the highest climb of the race, so uncategorised rises do not count
+  const highest = categorised.reduce<ClimbSegment | null>(
+    (highest, climb) =>
+      climb.category &&
+      (!highest || climb.peakElevation > highest.peakElevation)
+        ? climb
+        : highest,
+    null
+  );
+  if (highest && rules.highestPointName) {
+    highest.highestPoint = rules.highestPointName;
+  }
+  return categorised;
+}
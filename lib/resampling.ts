@@ -0,0 +1,155 @@
+import type { ElevationPoint, RawTrackPoint } from "./gpx-parser";
+
+// Point spacings offered for resampling, in meters
+export const RESAMPLE_STEPS = [10, 50, 100];
+
+// Tolerances offered for simplifying exported tracks, in meters
+export const SIMPLIFY_TOLERANCES = [1, 5, 10, 25];
+
+const METERS_PER_DEGREE = 111_320;
+
+function interpolate(start: number, end: number, ratio: number): number {
+  return start + (end - start) * ratio;
+}
+
+// The point at a distance between two neighbours, with the sensor readings of the nearer one
+function pointAtDistance(
+  before: ElevationPoint,
+  after: ElevationPoint,
+  distance: number
+): ElevationPoint {
+  const span = after.distance - before.distance;
+  const ratio = span > 0 ? (distance - before.distance) / span : 0;
+  const point: ElevationPoint = {
+    ...(ratio < 0.5 ? before : after),
+    distance,
+    elevation: interpolate(before.elevation, after.elevation, ratio),
+    latitude: interpolate(before.latitude, after.latitude, ratio),
+    longitude: interpolate(before.longitude, after.longitude, ratio),
+  };
+  if (before.time !== undefined && after.time !== undefined) {
+    point.time = Math.round(interpolate(before.time, after.time, ratio));
+  }
+  return point;
+}
+
+/**
+ * Resamples a profile to points a fixed number of meters apart, interpolating
+ * between the recorded points, so gradients are measured over even steps
+ * however densely the device sampled. Each run between `breaks` (the indices
+ * where segments join) is resampled on its own and keeps its last point.
+ * Returns the points and the breaks as indices into them.
+ */
+export function resampleByDistance(
+  points: ElevationPoint[],
+  step: number,
+  breaks: number[] = []
+): { points: ElevationPoint[]; breaks: number[] } {
+  if (points.length < 2 || step <= 0) return { points, breaks };
+
+  const stepDistance = step / 1000;
+  const starts = [0, ...breaks, points.length];
+  const resampled: ElevationPoint[] = [];
+  const resampledBreaks: number[] = [];
+
+  for (let run = 0; run < starts.length - 1; run++) {
+    const start = starts[run];
+    const end = starts[run + 1];
+    if (start >= end) continue;
+    if (run > 0) resampledBreaks.push(resampled.length);
+
+    const first = points[start];
+    const last = points[end - 1];
+    resampled.push(first);
+
+    let next = start + 1;
+    // Multiplied rather than accumulated, so rounding does not drift over a long track
+    for (
+      let sample = 1;
+      first.distance + sample * stepDistance < last.distance;
+      sample++
+    ) {
+      const distance = first.distance + sample * stepDistance;
+      while (next < end - 1 && points[next].distance < distance) next++;
+      resampled.push(pointAtDistance(points[next - 1], points[next], distance));
+    }
+
+    if (end - start > 1) resampled.push(last);
+  }
+
+  return { points: resampled, breaks: resampledBreaks };
+}
+
+// Offset in meters of a point from the first point of the track, on a local flat projection
+function toMeters(
+  point: RawTrackPoint,
+  origin: RawTrackPoint
+): [number, number, number] {
+  const cosLatitude = Math.cos((origin.latitude * Math.PI) / 180);
+  return [
+    (point.longitude - origin.longitude) * METERS_PER_DEGREE * cosLatitude,
+    (point.latitude - origin.latitude) * METERS_PER_DEGREE,
+    point.elevation ?? 0,
+  ];
+}
+
+// Distance from a point to the nearest point on the line between two others
+function distanceToChord(
+  [x, y, z]: [number, number, number],
+  [x1, y1, z1]: [number, number, number],
+  [x2, y2, z2]: [number, number, number]
+): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const dz = z2 - z1;
+  const lengthSquared = dx * dx + dy * dy + dz * dz;
+  const projection =
+    lengthSquared > 0
+      ? ((x - x1) * dx + (y - y1) * dy + (z - z1) * dz) / lengthSquared
+      : 0;
+  const t = Math.min(1, Math.max(0, projection));
+  return Math.hypot(x - x1 - dx * t, y - y1 - dy * t, z - z1 - dz * t);
+}
+
+/**
+ * Drops points that lie within `tolerance` meters of the line between the
+ * points kept either side of them (Douglas–Peucker), to shrink exported
+ * tracks for head units. Elevation counts as a third axis, so summits and
+ * valley floors are kept as well as corners.
+ */
+export function simplifyTrack<T extends RawTrackPoint>(
+  points: T[],
+  tolerance: number
+): T[] {
+  if (points.length < 3 || tolerance <= 0) return points;
+
+  const positions = points.map((point) => toMeters(point, points[0]));
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // An explicit stack rather than recursion, since tracks can have hundreds of thousands of points
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let farthest = -1;
+    let farthestDistance = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToChord(
+        positions[i],
+        positions[start],
+        positions[end]
+      );
+      if (distance > farthestDistance) {
+        farthest = i;
+        farthestDistance = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      stack.push([start, farthest], [farthest, end]);
+    }
+  }
+
+  return points.filter((_, index) => keep[index]);
+}
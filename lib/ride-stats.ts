@@ -0,0 +1,106 @@
+export interface RideStop {
+  // Distance along the profile and elevation where the rider stopped
+  distance: number;
+  elevation: number;
+  startTime: number;
+  endTime: number;
+  // Seconds
+  duration: number;
+}
+
+export interface RideStats {
+  startTime: number;
+  endTime: number;
+  // Seconds from first to last timestamp, and seconds spent moving
+  elapsedTime: number;
+  movingTime: number;
+  // Kilometers per hour over moving time
+  averageSpeed: number;
+  stops: RideStop[];
+}
+
+// Below this speed (km/h) a rider is considered stopped, which absorbs GPS drift while standing still
+const MIN_MOVING_SPEED = 2;
+
+// Stationary periods shorter than this (seconds) are traffic lights and junctions, not stops
+const MIN_STOP_DURATION = 60;
+
+// Stops at least this long (seconds) are worth marking on the profile
+export const LONG_STOP_DURATION = 5 * 60;
+
+type TimedPoint = { distance: number; elevation: number; time?: number };
+
+/**
+ * Calculates elapsed and moving time, average moving speed and stops from
+ * point timestamps. Returns null when the track has no timestamps, as for
+ * courses drawn in a route planner. Time across `breaks` (indices where the
+ * track jumps between segments) counts as stopped.
+ */
+export function calculateRideStats(
+  points: TimedPoint[],
+  breaks: number[] = []
+): RideStats | null {
+  const timedPoints = points.filter((point) => point.time !== undefined);
+  if (timedPoints.length < 2) return null;
+
+  const breakIndices = new Set(breaks);
+  const stops: RideStop[] = [];
+  let movingTime = 0;
+  let movingDistance = 0;
+  let stopStart: { index: number; time: number } | null = null;
+
+  const closeStop = (endTime: number) => {
+    if (!stopStart) return;
+    const duration = (endTime - stopStart.time) / 1000;
+    if (duration >= MIN_STOP_DURATION) {
+      const point = points[stopStart.index];
+      stops.push({
+        distance: point.distance,
+        elevation: point.elevation,
+        startTime: stopStart.time,
+        endTime,
+        duration,
+      });
+    }
+    stopStart = null;
+  };
+
+  let previousIndex = points.findIndex((point) => point.time !== undefined);
+  for (let i = previousIndex + 1; i < points.length; i++) {
+    const point = points[i];
+    if (point.time === undefined) continue;
+
+    const previous = points[previousIndex];
+    const elapsed = (point.time - previous.time!) / 1000;
+    const distance = point.distance - previous.distance;
+
+    // Duplicate or out-of-order timestamps carry no speed information
+    if (elapsed > 0) {
+      const speed = (distance / elapsed) * 3600;
+      const moving = !breakIndices.has(i) && speed >= MIN_MOVING_SPEED;
+
+      if (moving) {
+        closeStop(previous.time!);
+        movingTime += elapsed;
+        movingDistance += distance;
+      } else if (!stopStart) {
+        stopStart = { index: previousIndex, time: previous.time! };
+      }
+    }
+
+    previousIndex = i;
+  }
+
+  const startTime = timedPoints[0].time!;
+  const endTime = timedPoints[timedPoints.length - 1].time!;
+  closeStop(endTime);
+
+  return {
+    startTime,
+    endTime,
+    elapsedTime: (endTime - startTime) / 1000,
+    movingTime,
+    averageSpeed: movingTime > 0 ? (movingDistance / movingTime) * 3600 : 0,
+    stops,
+  };
+}
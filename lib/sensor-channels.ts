@@ -0,0 +1,42 @@
+export type SensorChannel = "heartRate" | "power" | "cadence" | "temperature";
+
+// Optional per-point readings from head unit sensors
+export interface SensorReadings {
+  heartRate?: number;
+  power?: number;
+  cadence?: number;
+  temperature?: number;
+}
+
+export const SENSOR_CHANNELS: Record<
+  SensorChannel,
+  { name: string; unit: string; color: string }
+> = {
+  heartRate: { name: "Heart rate", unit: "bpm", color: "#DC2626" },
+  power: { name: "Power", unit: "W", color: "#7C3AED" },
+  cadence: { name: "Cadence", unit: "rpm", color: "#2563EB" },
+  temperature: { name: "Temperature", unit: "°C", color: "#0D9488" },
+};
+
+const CHANNEL_KEYS = Object.keys(SENSOR_CHANNELS) as SensorChannel[];
+
+/**
+ * Copies the sensor readings that are present, so points without sensors
+ * do not carry a set of undefined keys
+ */
+export function pickSensorReadings(source: SensorReadings): SensorReadings {
+  const readings: SensorReadings = {};
+  for (const channel of CHANNEL_KEYS) {
+    const value = source[channel];
+    if (value !== undefined && Number.isFinite(value)) {
+      readings[channel] = value;
+    }
+  }
+  return readings;
+}
+
+export function availableChannels(points: SensorReadings[]): SensorChannel[] {
+  return CHANNEL_KEYS.filter((channel) =>
+    points.some((point) => point[channel] !== undefined)
+  );
+}
@@ -0,0 +1,116 @@
+import type { ElevationProvider } from "./elevation-provider";
+
+// SRTM marks missing samples (water, radar shadow) with this value
+const VOID_VALUE = -32768;
+
+export interface HGTTile {
+  // Latitude and longitude of the tile's south-west corner
+  latitude: number;
+  longitude: number;
+  // Samples per row and column: 1201 for 3 arc-second, 3601 for 1 arc-second tiles
+  size: number;
+  data: DataView;
+}
+
+/**
+ * Reads the south-west corner from an SRTM tile name such as "N45E006.hgt"
+ */
+export function parseHGTFileName(
+  fileName: string
+): { latitude: number; longitude: number } | null {
+  const match = fileName.match(/([NS])(\d{1,2})([EW])(\d{1,3})/i);
+  if (!match) return null;
+
+  const latitude =
+    Number.parseInt(match[2], 10) * (match[1].toUpperCase() === "S" ? -1 : 1);
+  const longitude =
+    Number.parseInt(match[4], 10) * (match[3].toUpperCase() === "W" ? -1 : 1);
+  return { latitude, longitude };
+}
+
+export function createHGTTile(fileName: string, buffer: ArrayBuffer): HGTTile {
+  const corner = parseHGTFileName(fileName);
+  if (!corner) {
+    throw new Error(`Cannot read tile position from file name "${fileName}"`);
+  }
+
+  // Tiles are square grids of big-endian 16-bit samples
+  const size = Math.sqrt(buffer.byteLength / 2);
+  if (!Number.isInteger(size)) {
+    throw new Error(`"${fileName}" is not a valid HGT tile`);
+  }
+
+  return { ...corner, size, data: new DataView(buffer) };
+}
+
+function sample(tile: HGTTile, row: number, column: number): number | null {
+  const value = tile.data.getInt16((row * tile.size + column) * 2, false);
+  return value === VOID_VALUE ? null : value;
+}
+
+/**
+ * Bilinear interpolation between the four samples around a coordinate. Rows
+ * run from the tile's northern edge southwards, columns from west to east.
+ */
+export function getTileElevation(
+  tile: HGTTile,
+  latitude: number,
+  longitude: number
+): number | null {
+  const y = (tile.latitude + 1 - latitude) * (tile.size - 1);
+  const x = (longitude - tile.longitude) * (tile.size - 1);
+  if (y < 0 || x < 0 || y > tile.size - 1 || x > tile.size - 1) return null;
+
+  const row = Math.min(Math.floor(y), tile.size - 2);
+  const column = Math.min(Math.floor(x), tile.size - 2);
+  const dy = y - row;
+  const dx = x - column;
+
+  const corners = [
+    { value: sample(tile, row, column), weight: (1 - dx) * (1 - dy) },
+    { value: sample(tile, row, column + 1), weight: dx * (1 - dy) },
+    { value: sample(tile, row + 1, column), weight: (1 - dx) * dy },
+    { value: sample(tile, row + 1, column + 1), weight: dx * dy },
+  ];
+
+  // Interpolate over the valid samples only, so a neighbouring void does not drag the value to -32768
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const { value, weight } of corners) {
+    if (value === null) continue;
+    weightedSum += value * weight;
+    totalWeight += weight;
+  }
+
+  return totalWeight > 0 ? weightedSum / totalWeight : null;
+}
+
+function tileKey(latitude: number, longitude: number): string {
+  return `${latitude},${longitude}`;
+}
+
+export function createSRTMProvider(tiles: HGTTile[]): ElevationProvider {
+  const tilesByCorner = new Map(
+    tiles.map((tile) => [tileKey(tile.latitude, tile.longitude), tile])
+  );
+
+  return {
+    getElevation(latitude: number, longitude: number) {
+      const tile = tilesByCorner.get(
+        tileKey(Math.floor(latitude), Math.floor(longitude))
+      );
+      return tile ? getTileElevation(tile, latitude, longitude) : null;
+    },
+  };
+}
+
+/**
+ * Loads tiles picked from disk through a file input
+ */
+export async function loadHGTFiles(files: Iterable<File>): Promise<HGTTile[]> {
+  return Promise.all(
+    Array.from(files).map(async (file) =>
+      createHGTTile(file.name, await file.arrayBuffer())
+    )
+  );
+}
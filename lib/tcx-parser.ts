@@ -0,0 +1,100 @@
+import {
+  addTrackPoint,
+  buildGPXData,
+  parseTime,
+  type GPXData,
+  type TrackBuildOptions,
+  type TrackSegment,
+} from "./gpx-parser"
+import { pickSensorReadings } from "./sensor-channels"
+import { localName, readXML, type XMLSource } from "./xml-reader"
+
+function fieldNumber(fields: Map<string, string>, name: string): number | undefined {
+  const value = Number.parseFloat(fields.get(name) ?? "")
+  return Number.isFinite(value) ? value : undefined
+}
+
+export function parseTCX(
+  source: XMLSource,
+  options: TrackBuildOptions = {},
+  onProgress?: (fraction: number) => void
+): GPXData {
+  const segment: TrackSegment = { name: "", points: [] }
+  let courseName: string | undefined
+
+  // Local names of the open elements, and the text read since the innermost one opened
+  const path: string[] = []
+  let text = ""
+  // Text of the leaf elements of the open <Trackpoint>, keyed by local name (HeartRateBpm > Value as HeartRateBpm)
+  let fields: Map<string, string> | null = null
+  let hasPosition = false
+
+  // Activities (Activity > Lap > Track) and courses (Course > Track) share the Trackpoint element
+  readXML(
+    source,
+    {
+      openTag(name) {
+        const tag = localName(name)
+        path.push(tag)
+        text = ""
+
+        if (tag === "Trackpoint") {
+          fields = new Map()
+          hasPosition = false
+        } else if (tag === "Position" && fields) {
+          hasPosition = true
+        }
+      },
+
+      text(chunk) {
+        text += chunk
+      },
+
+      closeTag(name) {
+        const tag = localName(name)
+        const parent = path[path.length - 2]
+        const value = text.trim()
+        path.pop()
+        text = ""
+
+        if (tag === "Trackpoint" && fields) {
+          const latitude = fieldNumber(fields, "LatitudeDegrees")
+          const longitude = fieldNumber(fields, "LongitudeDegrees")
+          const distanceMeters = fieldNumber(fields, "DistanceMeters")
+
+          // Points recorded without a GPS fix (e.g. paused or indoor) carry no position
+          if (!hasPosition || latitude === undefined || longitude === undefined) {
+            addTrackPoint(segment, null)
+          } else {
+            addTrackPoint(segment, {
+              latitude,
+              longitude,
+              elevation: fieldNumber(fields, "AltitudeMeters") ?? null,
+              distance: distanceMeters !== undefined ? distanceMeters / 1000 : undefined,
+              time: parseTime(fields.get("Time")),
+              ...pickSensorReadings({
+                heartRate: fieldNumber(fields, "HeartRateBpm"),
+                cadence: fieldNumber(fields, "Cadence"),
+                // Power lives in the ActivityExtension <TPX> element
+                power: fieldNumber(fields, "Watts"),
+              }),
+            })
+          }
+          fields = null
+        } else if (fields && value) {
+          const key = tag === "Value" ? parent : tag
+          if (!fields.has(key)) fields.set(key, value)
+        } else if (tag === "Name" && parent === "Course" && courseName === undefined) {
+          courseName = value
+        }
+      },
+    },
+    onProgress
+  )
+
+  if (segment.points.length === 0) {
+    throw new Error("No track points found in TCX file")
+  }
+
+  return buildGPXData([{ ...segment, name: courseName || "TCX track" }], [], options)
+}
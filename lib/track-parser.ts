@@ -0,0 +1,50 @@
+import { parseGPX, type GPXData, type TrackBuildOptions } from "./gpx-parser"
+import { parseTCX } from "./tcx-parser"
+import { isFitFile, parseFIT } from "./fit-parser"
+import { parseKML } from "./kml-parser"
+import { parseGeoJSON } from "./geojson-parser"
+
+export type TrackFormat = "gpx" | "tcx" | "fit" | "kml" | "geojson"
+
+// File extensions accepted by the upload input
+export const TRACK_FILE_EXTENSIONS = [".gpx", ".tcx", ".fit", ".kml", ".geojson", ".json"]
+
+/**
+ * Detects the track format from the file content rather than its extension,
+ * since exports are frequently renamed or served with the wrong suffix
+ */
+export function detectTrackFormat(buffer: ArrayBuffer): TrackFormat | null {
+  if (isFitFile(buffer)) return "fit"
+
+  const head = new TextDecoder().decode(buffer.slice(0, 2048))
+  if (/<TrainingCenterDatabase[\s>]/.test(head)) return "tcx"
+  if (/<gpx[\s>]/.test(head)) return "gpx"
+  if (/<kml[\s>]/.test(head)) return "kml"
+  if (/^\s*\{/.test(head) && /"type"\s*:/.test(head)) return "geojson"
+  return null
+}
+
+/**
+ * Parses a track file of any supported format. `onProgress` follows how much
+ * of an XML file has been read; binary and JSON files are read in one go.
+ */
+export function parseTrackFile(
+  buffer: ArrayBuffer,
+  options: TrackBuildOptions = {},
+  onProgress?: (fraction: number) => void
+): GPXData {
+  switch (detectTrackFormat(buffer)) {
+    case "fit":
+      return parseFIT(buffer, options)
+    case "tcx":
+      return parseTCX(buffer, options, onProgress)
+    case "gpx":
+      return parseGPX(buffer, options, onProgress)
+    case "kml":
+      return parseKML(buffer, options, onProgress)
+    case "geojson":
+      return parseGeoJSON(new TextDecoder().decode(buffer), options)
+    default:
+      throw new Error("Unrecognized track file format")
+  }
+}
@@ -0,0 +1,203 @@
+import {
+  calculateDistance,
+  type RawTrackPoint,
+  type TrackSegment,
+} from "./gpx-parser";
+import {
+  applyElevationProvider,
+  type ElevationProvider,
+} from "./elevation-provider";
+
+export interface CoordinateJump {
+  segment: string;
+  // Index within the segment of the point after the jump
+  index: number;
+  // Straight-line length in kilometers
+  length: number;
+}
+
+export interface TrackValidationReport {
+  totalPoints: number;
+  // Points left out by the parser because they had no usable position
+  missingCoordinates: number;
+  missingElevation: number;
+  // Points timestamped the same as the point before them
+  duplicateTimestamps: number;
+  outOfRange: number;
+  coordinateJumps: CoordinateJump[];
+}
+
+// Between timestamped points, a jump is movement faster than any bike over more than a short distance (km/h, km)
+const MAX_PLAUSIBLE_SPEED = 150;
+const MIN_JUMP_LENGTH = 0.5;
+
+// Planned routes have no timestamps and may legitimately skip long straight roads between points (km)
+const MAX_UNTIMED_STEP = 5;
+
+function isInRange(point: RawTrackPoint): boolean {
+  return Math.abs(point.latitude) <= 90 && Math.abs(point.longitude) <= 180;
+}
+
+function stepLength(previous: RawTrackPoint, point: RawTrackPoint): number {
+  return calculateDistance(
+    previous.latitude,
+    previous.longitude,
+    point.latitude,
+    point.longitude
+  );
+}
+
+function isJump(previous: RawTrackPoint, point: RawTrackPoint): boolean {
+  const length = stepLength(previous, point);
+  if (previous.time !== undefined && point.time !== undefined) {
+    const hours = (point.time - previous.time) / 3_600_000;
+    return (
+      length > MIN_JUMP_LENGTH &&
+      (hours <= 0 || length / hours > MAX_PLAUSIBLE_SPEED)
+    );
+  }
+  return length > MAX_UNTIMED_STEP;
+}
+
+// Walks the in-range points of a segment, calling `visit` with each point and the one before it
+function forEachStep(
+  points: RawTrackPoint[],
+  visit: (previous: RawTrackPoint, point: RawTrackPoint, index: number) => void
+) {
+  let previous: RawTrackPoint | null = null;
+  points.forEach((point, index) => {
+    if (!isInRange(point)) return;
+    if (previous) visit(previous, point, index);
+    previous = point;
+  });
+}
+
+/**
+ * Checks the points read from a file for problems that distort the profile:
+ * missing data, repeated samples, impossible coordinates and jumps where the
+ * recording lost its fix or files were concatenated.
+ */
+export function validateTrack(segments: TrackSegment[]): TrackValidationReport {
+  const report: TrackValidationReport = {
+    totalPoints: 0,
+    missingCoordinates: 0,
+    missingElevation: 0,
+    duplicateTimestamps: 0,
+    outOfRange: 0,
+    coordinateJumps: [],
+  };
+
+  segments.forEach((segment) => {
+    report.totalPoints += segment.points.length;
+    report.missingCoordinates += segment.skippedPoints ?? 0;
+
+    segment.points.forEach((point, index) => {
+      if (point.elevation === null) report.missingElevation++;
+      if (!isInRange(point)) report.outOfRange++;
+      const previous = segment.points[index - 1];
+      if (
+        previous?.time !== undefined &&
+        point.time !== undefined &&
+        previous.time === point.time
+      ) {
+        report.duplicateTimestamps++;
+      }
+    });
+
+    forEachStep(segment.points, (previous, point, index) => {
+      if (isJump(previous, point)) {
+        report.coordinateJumps.push({
+          segment: segment.name,
+          index,
+          length: stepLength(previous, point),
+        });
+      }
+    });
+  });
+
+  return report;
+}
+
+export function hasTrackIssues(report: TrackValidationReport): boolean {
+  return (
+    report.missingCoordinates > 0 ||
+    report.missingElevation > 0 ||
+    report.duplicateTimestamps > 0 ||
+    report.outOfRange > 0 ||
+    report.coordinateJumps.length > 0
+  );
+}
+
+// Fills null elevations by interpolating along the segment, holding the nearest known value at either end
+function interpolateElevations(points: RawTrackPoint[]): RawTrackPoint[] {
+  const known = points
+    .map((point, index) => (point.elevation === null ? -1 : index))
+    .filter((index) => index !== -1);
+  if (known.length === 0 || known.length === points.length) return points;
+
+  // Cumulative distance, since points are rarely evenly spaced
+  const distances = [0];
+  for (let i = 1; i < points.length; i++) {
+    distances.push(distances[i - 1] + stepLength(points[i - 1], points[i]));
+  }
+
+  let next = 0;
+  return points.map((point, index) => {
+    if (point.elevation !== null) return point;
+
+    while (next < known.length && known[next] < index) next++;
+    const before = known[next - 1];
+    const after = known[next];
+    if (before === undefined) {
+      return { ...point, elevation: points[after].elevation };
+    }
+    if (after === undefined) {
+      return { ...point, elevation: points[before].elevation };
+    }
+
+    const span = distances[after] - distances[before];
+    const ratio = span > 0 ? (distances[index] - distances[before]) / span : 0;
+    const start = points[before].elevation!;
+    const end = points[after].elevation!;
+    return { ...point, elevation: start + (end - start) * ratio };
+  });
+}
+
+/**
+ * Applies the repairs offered for a validation report: out-of-range points and
+ * repeated timestamps are dropped, segments are split at coordinate jumps so
+ * the jump is left out of the distance, and missing elevations are filled in
+ * from their neighbours. Where the elevation provider covers a missing point,
+ * it is looked up there instead of being interpolated.
+ */
+export function repairTrack(
+  segments: TrackSegment[],
+  elevationProvider?: ElevationProvider | null
+): TrackSegment[] {
+  return segments.flatMap((segment) => {
+    const points = segment.points.filter((point, index) => {
+      const previous = segment.points[index - 1];
+      return (
+        isInRange(point) &&
+        (previous?.time === undefined || previous.time !== point.time)
+      );
+    });
+
+    const parts: RawTrackPoint[][] = [[]];
+    points.forEach((point, index) => {
+      const previous = points[index - 1];
+      if (previous && isJump(previous, point)) parts.push([]);
+      parts[parts.length - 1].push(point);
+    });
+
+    return parts.map((part, index) => ({
+      name:
+        parts.length > 1 ? `${segment.name} – part ${index + 1}` : segment.name,
+      points: interpolateElevations(
+        elevationProvider
+          ? applyElevationProvider(part, elevationProvider)
+          : part
+      ),
+    }));
+  });
+}
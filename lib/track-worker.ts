@@ -0,0 +1,125 @@
+import { buildGPXData, rebuildGPXData, type GPXData, type TrackBuildOptions } from "./gpx-parser"
+import { parseTrackFile } from "./track-parser"
+import { createSRTMProvider, type HGTTile } from "./srtm"
+import { detectClimbs, type ClimbDetectionOptions, type ClimbSegment } from "./climb-detector"
+import { DEFAULT_CLIMB_SCORING, type ClimbScoring } from "./climb-scoring"
+import { applyRaceEvent, type RaceEvent } from "./race-events"
+import { detectDescents, type DescentSegment } from "./descent-detector"
+import { repairTrack, validateTrack, type TrackValidationReport } from "./track-validation"
+import { XMLSyntaxError } from "./xml-reader"
+
+// Settings for finding and categorising climbs, which can be applied to a built profile without rebuilding it
+export interface ClimbJobOptions {
+  climbDetection?: ClimbDetectionOptions
+  climbScoring?: ClimbScoring
+  // Categorise climbs by an event's rules rather than the plain scale of the scoring strategy
+  raceEvent?: RaceEvent
+}
+
+// Build options that can be posted to the worker; the elevation provider is recreated there from the tiles
+export type TrackJobOptions = Omit<TrackBuildOptions, "elevationProvider"> & ClimbJobOptions
+
+export type TrackJob =
+  | { type: "parse"; buffer: ArrayBuffer; options: TrackJobOptions; tiles: HGTTile[] }
+  // Only the source of a loaded track is sent back, not its processed points. A repair rebuilds from the repaired
+  // segments, which replace the source and reset the segment selection.
+  | {
+      type: "rebuild" | "repair"
+      source: Pick<GPXData, "segments" | "rawWaypoints" | "selectedSegments">
+      options: TrackJobOptions
+      tiles: HGTTile[]
+    }
+  // Detects climbs and descents again on a profile that is already built
+  | { type: "climbs"; profile: Pick<GPXData, "elevationPoints" | "totalDistance">; options: ClimbJobOptions }
+
+export type TrackStage = "reading" | "processing" | "climbs"
+
+export type TrackWorkerMessage =
+  // Progress is the fraction of the whole job, across all stages
+  | { type: "progress"; stage: TrackStage; progress: number }
+  | {
+      type: "result"
+      data: GPXData
+      climbs: ClimbSegment[]
+      descents: DescentSegment[]
+      // Only parsing validates the file; rebuilds and repairs start from segments that were already checked
+      report: TrackValidationReport | null
+    }
+  | { type: "climbs"; climbs: ClimbSegment[]; descents: DescentSegment[] }
+  // Line and column are set when the file is not well-formed XML
+  | { type: "error"; message: string; line?: number; column?: number }
+
+// Share of the progress bar given to reading the file; smoothing and climb detection report no progress of their own
+const READING_SHARE = 0.8
+const PROCESSING_SHARE = 0.15
+
+function report(message: TrackWorkerMessage) {
+  postMessage(message)
+}
+
+function detectTrackClimbs(
+  profile: Pick<GPXData, "elevationPoints" | "totalDistance">,
+  { climbDetection, climbScoring = DEFAULT_CLIMB_SCORING, raceEvent }: ClimbJobOptions
+): { climbs: ClimbSegment[]; descents: DescentSegment[] } {
+  let climbs = detectClimbs(profile.elevationPoints, climbDetection, climbScoring)
+  if (raceEvent) climbs = applyRaceEvent(climbs, raceEvent, climbScoring, profile.totalDistance)
+  return { climbs, descents: detectDescents(profile.elevationPoints, climbDetection) }
+}
+
+/**
+ * Parses or rebuilds a track and detects its climbs off the main thread, so
+ * large recordings do not freeze the page. Climbs can also be detected again
+ * on their own when only their settings change. Each worker runs one job at a
+ * time; a job is cancelled by terminating the worker.
+ */
+addEventListener("message", (event: MessageEvent<TrackJob>) => {
+  const job = event.data
+
+  try {
+    if (job.type === "climbs") {
+      report({ type: "climbs", ...detectTrackClimbs(job.profile, job.options) })
+      return
+    }
+
+    const options: TrackBuildOptions = {
+      ...job.options,
+      elevationProvider: job.tiles.length > 0 ? createSRTMProvider(job.tiles) : null,
+    }
+
+    let data: GPXData
+    if (job.type === "parse") {
+      report({ type: "progress", stage: "reading", progress: 0 })
+      // Parsing includes building the profile, so processing is reported once the file has been read
+      data = parseTrackFile(job.buffer, options, (fraction) =>
+        report({
+          type: "progress",
+          stage: fraction < 1 ? "reading" : "processing",
+          progress: fraction * READING_SHARE,
+        })
+      )
+    } else if (job.type === "repair") {
+      report({ type: "progress", stage: "processing", progress: READING_SHARE })
+      data = buildGPXData(repairTrack(job.source.segments, options.elevationProvider), job.source.rawWaypoints, {
+        ...options,
+        selectedSegments: undefined,
+      })
+    } else {
+      report({ type: "progress", stage: "processing", progress: READING_SHARE })
+      data = rebuildGPXData(job.source, options)
+    }
+
+    report({ type: "progress", stage: "climbs", progress: READING_SHARE + PROCESSING_SHARE })
+    report({
+      type: "result",
+      data,
+      ...detectTrackClimbs(data, job.options),
+      report: job.type === "parse" ? validateTrack(data.segments) : null,
+    })
+  } catch (error) {
+    if (error instanceof XMLSyntaxError) {
+      report({ type: "error", message: error.reason, line: error.line, column: error.column })
+    } else {
+      report({ type: "error", message: error instanceof Error ? error.message : String(error) })
+    }
+  }
+})
@@ -0,0 +1,248 @@
+export interface XMLHandler {
+  openTag?(name: string, attributes: Record<string, string>): void
+  closeTag?(name: string): void
+  // Character data between tags, with entities decoded; CDATA sections are passed through as is
+  text?(text: string): void
+}
+
+// Track files are either raw bytes from an upload or text already in memory
+export type XMLSource = string | ArrayBuffer
+
+export class XMLSyntaxError extends Error {
+  constructor(readonly reason: string, readonly line: number, readonly column: number) {
+    super(`Invalid XML at line ${line}, column ${column}: ${reason}`)
+    this.name = "XMLSyntaxError"
+  }
+}
+
+// Text is fed to the reader in slices of this many bytes (or characters), with progress reported after each
+const CHUNK_SIZE = 1 << 20
+
+const ENTITIES: Record<string, string> = { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }
+
+const NAME_PATTERN = /^[A-Za-z_:][\w.:-]*$/
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g
+
+// Strips the namespace prefix, since devices disagree on prefixes for the same extension (gpxtpx:hr, ns3:hr)
+export function localName(name: string): string {
+  const colon = name.indexOf(":")
+  return colon === -1 ? name : name.slice(colon + 1)
+}
+
+function decodeEntities(text: string): string {
+  if (!text.includes("&")) return text
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|\w+);/g, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" ? Number.parseInt(entity.slice(2), 16) : Number.parseInt(entity.slice(1), 10)
+      return String.fromCodePoint(code)
+    }
+    return ENTITIES[entity] ?? match
+  })
+}
+
+// Index of the ">" closing a tag that starts at `start`, skipping any ">" inside quoted attribute values
+function findTagEnd(data: string, start: number): number {
+  let quote: string | null = null
+  for (let i = start + 1; i < data.length; i++) {
+    const char = data[i]
+    if (quote) {
+      if (char === quote) quote = null
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === ">") {
+      return i
+    }
+  }
+  return -1
+}
+
+/**
+ * A streaming, SAX-style XML reader. Text can be written in arbitrary chunks;
+ * markup split across chunks is held back until the rest arrives. Elements
+ * must nest and close properly, otherwise an XMLSyntaxError is thrown with
+ * the line and column of the offending markup. DTDs are skipped and only the
+ * predefined and numeric entities are decoded.
+ */
+export function createXMLReader(handler: XMLHandler) {
+  const openElements: string[] = []
+  // Unconsumed input starts at `position`; `line` and `column` locate that character in the file
+  let pending = ""
+  let position = 0
+  let line = 1
+  let column = 1
+  let seenRoot = false
+
+  // Index of the next newline at or after `position`, cached since single-line files would otherwise be rescanned per tag
+  let nextNewline = -1
+
+  // Moves the cursor to `end`, counting the newlines passed over
+  const advance = (end: number) => {
+    if (nextNewline === -1 || nextNewline >= end) {
+      column += end - position
+    } else {
+      while (nextNewline !== -1 && nextNewline < end) {
+        line++
+        column = end - nextNewline
+        nextNewline = pending.indexOf("\n", nextNewline + 1)
+      }
+    }
+    position = end
+  }
+
+  const fail = (reason: string, offset: number): never => {
+    const before = pending.slice(position, offset)
+    const lastNewline = before.lastIndexOf("\n")
+    const newlines = lastNewline === -1 ? 0 : before.split("\n").length - 1
+    throw new XMLSyntaxError(
+      reason,
+      line + newlines,
+      lastNewline === -1 ? column + before.length : before.length - lastNewline
+    )
+  }
+
+  const emitText = (text: string, offset: number) => {
+    if (openElements.length === 0) {
+      if (text.trim()) fail("Text outside the root element", offset + text.search(/\S/))
+      return
+    }
+    if (text) handler.text?.(decodeEntities(text))
+  }
+
+  const readTag = (tag: string, offset: number) => {
+    if (tag[1] === "/") {
+      const name = tag.slice(2, -1).trim()
+      const expected = openElements.pop()
+      if (expected !== name) {
+        fail(expected ? `Expected </${expected}> but found </${name}>` : `Unexpected closing tag </${name}>`, offset)
+      }
+      handler.closeTag?.(name)
+      return
+    }
+
+    const selfClosing = tag[tag.length - 2] === "/"
+    const body = tag.slice(1, selfClosing ? -2 : -1)
+    const nameEnd = body.search(/\s|$/)
+    const name = body.slice(0, nameEnd)
+    if (!NAME_PATTERN.test(name)) fail(`Invalid element name "${name}"`, offset)
+    if (openElements.length === 0 && seenRoot) fail(`Second root element <${name}>`, offset)
+
+    const attributes: Record<string, string> = {}
+    const attributeText = body.slice(nameEnd)
+    ATTRIBUTE_PATTERN.lastIndex = 0
+    let consumed = 0
+    let match: RegExpExecArray | null
+    while ((match = ATTRIBUTE_PATTERN.exec(attributeText))) {
+      if (attributeText.slice(consumed, match.index).trim()) break
+      attributes[match[1]] = decodeEntities(match[2] ?? match[3])
+      consumed = ATTRIBUTE_PATTERN.lastIndex
+    }
+    if (attributeText.slice(consumed).trim()) {
+      fail(`Malformed attributes in <${name}>`, offset)
+    }
+
+    seenRoot = true
+    handler.openTag?.(name, attributes)
+    if (selfClosing) {
+      handler.closeTag?.(name)
+    } else {
+      openElements.push(name)
+    }
+  }
+
+  // Index just past the markup starting at `start`, or -1 when it continues in a later chunk
+  const markupEnd = (start: number): number => {
+    if (pending.startsWith("<!--", start)) {
+      const close = pending.indexOf("-->", start + 4)
+      return close === -1 ? -1 : close + 3
+    }
+    if (pending.startsWith("<![CDATA[", start)) {
+      const close = pending.indexOf("]]>", start + 9)
+      return close === -1 ? -1 : close + 3
+    }
+    if (pending.startsWith("<?", start)) {
+      const close = pending.indexOf("?>", start + 2)
+      return close === -1 ? -1 : close + 2
+    }
+    if (pending.startsWith("<!", start)) {
+      // A DOCTYPE, whose internal subset may contain ">" inside brackets
+      const firstClose = pending.indexOf(">", start)
+      if (firstClose === -1) return -1
+      const subset = pending.indexOf("[", start)
+      if (subset === -1 || subset > firstClose) return firstClose + 1
+      const close = pending.indexOf("]>", subset)
+      return close === -1 ? -1 : close + 2
+    }
+    const close = findTagEnd(pending, start)
+    return close === -1 ? -1 : close + 1
+  }
+
+  // Handles the next text run and markup if complete, returning false when more input is needed
+  const step = (): boolean => {
+    const start = pending.indexOf("<", position)
+    if (start === -1) return false
+    const end = markupEnd(start)
+    if (end === -1) return false
+
+    if (start > position) {
+      emitText(pending.slice(position, start), position)
+      advance(start)
+    }
+
+    if (pending.startsWith("<![CDATA[", start)) {
+      if (openElements.length === 0) fail("CDATA section outside the root element", start)
+      handler.text?.(pending.slice(start + 9, end - 3))
+    } else if (pending[start + 1] !== "!" && pending[start + 1] !== "?") {
+      readTag(pending.slice(start, end), start)
+    }
+
+    advance(end)
+    return true
+  }
+
+  return {
+    write(chunk: string) {
+      pending = pending.slice(position) + chunk
+      position = 0
+      nextNewline = pending.indexOf("\n")
+      while (step()) {
+        // Keep consuming complete markup
+      }
+    },
+
+    close() {
+      const rest = pending.slice(position)
+      const markup = rest.indexOf("<")
+      if (markup !== -1) fail("Unterminated markup at end of file", position + markup)
+      emitText(rest, position)
+      if (openElements.length > 0) {
+        fail(`Missing </${openElements[openElements.length - 1]}> at end of file`, pending.length)
+      }
+      if (!seenRoot) fail("No root element", position)
+    },
+  }
+}
+
+/**
+ * Feeds a whole source through a reader in chunks, so a progress callback
+ * can follow large files. Byte sources are decoded as UTF-8 as they are read.
+ */
+export function readXML(source: XMLSource, handler: XMLHandler, onProgress?: (fraction: number) => void) {
+  const reader = createXMLReader(handler)
+
+  if (typeof source === "string") {
+    for (let offset = 0; offset < source.length; offset += CHUNK_SIZE) {
+      reader.write(source.slice(offset, offset + CHUNK_SIZE))
+      onProgress?.(Math.min(offset + CHUNK_SIZE, source.length) / source.length)
+    }
+  } else {
+    const bytes = new Uint8Array(source)
+    const decoder = new TextDecoder()
+    for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+      reader.write(decoder.decode(bytes.subarray(offset, offset + CHUNK_SIZE), { stream: true }))
+      onProgress?.(Math.min(offset + CHUNK_SIZE, bytes.length) / bytes.length)
+    }
+    reader.write(decoder.decode())
+  }
+
+  reader.close()
+}